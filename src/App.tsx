@@ -7,7 +7,19 @@ import GestureComponent from "./components/GestureComponent";
 import AudioWaveComponent from "./components/AudioWaveComponent";
 import SpeechComponent from "./components/SpeechComponent";
 import SideBar from "./components/SideBar";
+import EffectsPanel from "./components/EffectsPanel";
+import SequencerPanel from "./components/SequencerPanel";
+import { StepSequencer } from "./sequencer/StepSequencer";
+import RecorderPanel from "./components/RecorderPanel";
+import { SessionRecorder } from "./recording/SessionRecorder";
 import { AudioManager } from "./AudioManager";
+import { IntentAdapter } from "./intents/IntentAdapter";
+import { InputController } from "./input/InputController";
+import InputPanel from "./components/InputPanel";
+import VelocityPanel from "./components/VelocityPanel";
+import MixerPanel from "./components/MixerPanel";
+import LoopPanel from "./components/LoopPanel";
+import TrackLibraryPanel from "./components/TrackLibraryPanel";
 
 function App() {
   let audioUrl = "assets/sounds/audio.mp3"
@@ -15,7 +27,18 @@ function App() {
   const [video, setVideo] = useState<HTMLVideoElement | null>(null);
   // Check if the browser supports the WebSpeech API
 
-  const soundManager: AudioManager = new AudioManager(waveformRef.current);
+  // A single AudioManager for the whole app, the waveform is bound to it once created
+  const [soundManager] = useState<AudioManager>(() => new AudioManager(null));
+  const [sequencer] = useState<StepSequencer>(() => new StepSequencer(soundManager));
+  const [recorder] = useState<SessionRecorder>(() => new SessionRecorder(soundManager));
+  // Gestures, keyboard and MIDI controllers all act through the same intents
+  const [adapter] = useState<IntentAdapter>(() => new IntentAdapter(soundManager));
+  const [inputController] = useState<InputController>(() => new InputController(adapter, soundManager));
+
+  useEffect(() => {
+    inputController.attach();
+    return () => inputController.detach();
+  }, [inputController]);
   
   useEffect(() => {
     if (hasGetUserMedia()) {
@@ -58,7 +81,7 @@ function App() {
             <div className="row">
               <div className="col">
                 {video && (
-                  <GestureComponent video={video} waveform={waveformRef.current} soundManager={soundManager}></GestureComponent>
+                  <GestureComponent video={video} waveform={waveformRef.current} soundManager={soundManager} adapter={adapter}></GestureComponent>
                 )}
               </div>
               <div className="col" style={{ position: "relative" }}>
@@ -67,9 +90,17 @@ function App() {
                     "This browser doesn't support all features. Try Google Chrome instead" : "🟣 Now Playing: Original Track"
                   }
                 </p>
+                <TrackLibraryPanel soundManager={soundManager} />
+                <MixerPanel soundManager={soundManager} />
+                <EffectsPanel soundManager={soundManager} />
+                <VelocityPanel soundManager={soundManager} />
+                <LoopPanel soundManager={soundManager} adapter={adapter} />
+                <SequencerPanel sequencer={sequencer} />
+                <RecorderPanel recorder={recorder} sequencer={sequencer} />
+                <InputPanel controller={inputController} />
               </div>
               <div className="col">
-                <SpeechComponent waveform={waveformRef.current} soundManager={soundManager}></SpeechComponent>
+                <SpeechComponent waveform={waveformRef.current} soundManager={soundManager} adapter={adapter}></SpeechComponent>
               </div>
             </div>
           </div>
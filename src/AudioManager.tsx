@@ -1,22 +1,61 @@
-import currentMode from "./CurrentMode";
+import currentMode, { Mode, ModeChangeEvent } from "./CurrentMode";
+import kitRegistry from "./kits/KitRegistry";
+import { DrumPad, SampleKit, Song } from "./kits/SampleKit";
+import { EffectsRack } from "./effects/EffectsRack";
+import velocityCurves, { velocityToGain } from "./kits/VelocityCurve";
+import { VoiceManager } from "./voices/VoiceManager";
+import { Mixer } from "./mixer/Mixer";
+import { TempoAnalyzer } from "./tempo/TempoAnalyzer";
+import { TempoResult } from "./tempo/TempoDetection";
+import { LoopSeam } from "./loop/LoopSeam";
+import loopSettings from "./loop/LoopSettings";
+import trackLibrary, { USER_TRACKS_PLAYLIST } from "./library/TrackLibrary";
+import { BUNDLED_PLAYLIST, CatalogPlaylist } from "./library/bundledPlaylists";
+
+
+/**
+ * A sample triggered through playSound(). Scheduled hits come from the sequencer, the others are played live
+ */
+export interface DrumHit {
+  pad: DrumPad;
+  kit: Mode;
+  time: number;
+  velocity: number; // 0..1
+  scheduled: boolean;
+}
+
+/**
+ * A decoded sample of a pad, played from minVelocity up
+ */
+interface SampleBuffer {
+  buffer: AudioBuffer;
+  minVelocity: number;
+}
+
+export type DrumHitListener = (hit: DrumHit) => void;
 
-const NORMAL_SONGS = [{path: "audio.mp3", name: "Original Track"}, {path: "audio_techno.mp3", name: "Techno Track"}, {path: "audio_original.mp3", name: "Chill Track"}];
-const LAURA_SONGS = [{path: "hiddenSounds/laura.mp3", name: "Måneskin - Ella baila sola (cover de Peso Pluma) LIVE"}];
-const EMILIO_SONGS = [{path: "hiddenSounds/emilio.mp3", name: "Emilio's Track"}];
-const NINA_SONGS = [{path: "hiddenSounds/nina.mp3", name: "Love on the Brain (Rihanna Cover) by Nina <a target='_blank' href='https://www.instagram.com/ninamazza_/'>@ninamazza_</a>", shortName: "Love on the Brain (Rihanna Cover) by Nina"}];
-const CHRISTMAS_SONGS = [{path: "hiddenSounds/christmas.mp3", name: "Christmas Track"}];
-const PIANO_SONGS = [{path: "hiddenSounds/piano.wav", name: "Piano Track"}];
+export type TempoListener = (tempo: TempoResult | null) => void;
 
 export class AudioManager {
   private audioContext: AudioContext | null = null;
-  private normalAudioBufferMap: Map<string, AudioBuffer>;  //With each sound
-  private christmasAudioBufferMap: Map<string, AudioBuffer>;  //With each sound
-  private pianoAudioBufferMap: Map<string, AudioBuffer>;  //With each sound
+  private kitBufferMap: Map<Mode, Map<DrumPad, SampleBuffer[]>>;  //With each sound of each kit, by velocity layer
+  private activeKit: Mode = currentMode.getMode();
   private currentSong: number = 0;
   private waveform: WaveSurfer | null = null;
+  private effectsRack: EffectsRack | null = null;
+  private mixer: Mixer | null = null;
+  private loopSeam: LoopSeam | null = null;
+  private voiceManager: VoiceManager | null = null;
   private speedValue: number = 1;
   private listeners: any = [];
-  private songs: any = NORMAL_SONGS;
+  private hitListeners: DrumHitListener[] = [];
+  private tempoListeners: TempoListener[] = [];
+  private tempoAnalyzer: TempoAnalyzer = new TempoAnalyzer();
+  private tempo: TempoResult | null = null;
+  private tempoRequest: number = 0;
+  private songs: Song[] = BUNDLED_PLAYLIST.songs;
+  private playlistName: string = BUNDLED_PLAYLIST.name;
+  private playlistHidden: boolean = false; // a hidden playlist of the catalog, not named in the panels
 
   addListener(listener: any) {
     this.listeners.push(listener);
@@ -30,18 +69,114 @@ export class AudioManager {
     this.listeners.forEach((listener: any) => listener());
   }
 
+  addHitListener(listener: DrumHitListener) {
+    this.hitListeners.push(listener);
+  }
+
+  removeHitListener(listener: DrumHitListener) {
+    this.hitListeners = this.hitListeners.filter((l) => l !== listener);
+  }
+
+  addTempoListener(listener: TempoListener) {
+    this.tempoListeners.push(listener);
+  }
+
+  removeTempoListener(listener: TempoListener) {
+    this.tempoListeners = this.tempoListeners.filter((l) => l !== listener);
+  }
+
 
   constructor(waveform: WaveSurfer | null) {
-    this.normalAudioBufferMap = new Map();
-    this.christmasAudioBufferMap = new Map();
-    this.pianoAudioBufferMap = new Map();
+    this.kitBufferMap = new Map();
+
+    if (waveform) {
+      this.setWaveform(waveform);
+    }
+
+    currentMode.subscribe(this.onModeChange);
+  }
 
+  /**
+   * Function to bind the waveform once it is created: the loop seam and the effects rack are inserted in its audio graph
+   * and the next song starts when the current one ends
+   */
+  setWaveform(waveform: WaveSurfer) {
+    // A waveform created again (new audio URL, effects run twice) replaces the previous one, its nodes are left alone
+    const previous = this.waveform?.backend as unknown as { analyser: AnalyserNode | null, gainNode: GainNode | null } | undefined;
+    if (this.waveform && this.waveform !== waveform) {
+      previous?.analyser?.disconnect();
+      previous?.gainNode?.disconnect();
+    }
     this.waveform = waveform;
+    const rack = this.getEffectsRack();
+    rack?.attach(waveform);
+
+    // The loop seam fades the track before the effects, so the crossfaded tail goes through the same effects
+    const backend = waveform.backend as unknown as { analyser: AnalyserNode | null, gainNode: GainNode | null };
+    const loopSeam = this.getLoopSeam();
+    if (backend.analyser && backend.gainNode && loopSeam) {
+      loopSeam.node.disconnect();
+      backend.analyser.disconnect();
+      backend.analyser.connect(loopSeam.node);
+      loopSeam.node.connect(rack ? rack.input : backend.gainNode);
+    }
 
-    waveform?.on('finish', () => {
+    // The volume node of the waveform goes to the track channel of the mixer instead of the speakers
+    const mixer = this.getMixer();
+    if (backend.gainNode && mixer) {
+      backend.gainNode.disconnect();
+      backend.gainNode.connect(mixer.getChannel("track").input);
+    }
+
+    waveform.on('finish', () => {
       this.nextSong();
       this.newTrack();
     });
+    waveform.on('loading', () => this.clearTempo());
+    waveform.on('ready', () => this.analyzeTempo());
+  }
+
+  /**
+   * Function to estimate the tempo of the track loaded on the waveform, in a worker. The tracks of the user library
+   * were analysed when they were added, their tempo is read back. A track loaded meanwhile discards the result
+   */
+  private async analyzeTempo() {
+    const buffer = (this.waveform?.backend as unknown as { buffer: AudioBuffer | null } | undefined)?.buffer;
+    if (!buffer) {
+      return;
+    }
+    const request = ++this.tempoRequest;
+    const trackId = this.songs[this.currentSong]?.trackId;
+    const stored = trackId ? (await trackLibrary.getTrack(trackId).catch(() => undefined))?.tempo : undefined;
+    const tempo = stored ?? await this.tempoAnalyzer.analyze(buffer);
+    if (request == this.tempoRequest) {
+      this.setTempo(tempo);
+    }
+  }
+
+  private setTempo(tempo: TempoResult | null) {
+    this.tempo = tempo;
+    this.tempoListeners.forEach((listener) => listener(tempo));
+  }
+
+  // Fired all along the download of a track, the analysis in progress is for the previous one
+  private clearTempo() {
+    this.tempoRequest++;
+    if (this.tempo) {
+      this.setTempo(null);
+    }
+  }
+
+  /**
+   * Function to get the tempo and the beat grid of the current track, null while it is loading or being analyzed
+   */
+  getTempo(): TempoResult | null {
+    return this.tempo;
+  }
+
+  // The drum kit always follows the active mode
+  private onModeChange = (event: ModeChangeEvent) => {
+    this.activeKit = event.next;
   }
 
   // Initialize the AudioContext
@@ -53,103 +188,184 @@ export class AudioManager {
     }
   }
 
+  getWaveform() {
+    return this.waveform;
+  }
+
+  /**
+   * Function to get the AudioContext shared by the samples and the waveform, so that they can be routed together
+   */
+  getAudioContext(): AudioContext | null {
+    if (!this.audioContext) {
+      this.initializeAudioContext();
+    }
+    return this.audioContext;
+  }
+
+  /**
+   * Function to get the mixer of the waveform track and the drum pads, its master channel goes to the speakers
+   */
+  getMixer(): Mixer | null {
+    const audioContext = this.getAudioContext();
+    if (!this.mixer && audioContext) {
+      this.mixer = new Mixer(audioContext, audioContext.destination);
+    }
+    return this.mixer;
+  }
+
+  /**
+   * Function to get the master output, the mix of the waveform track and the pads after the master channel.
+   * Features that need the whole mix (e.g. the session recorder) connect to it
+   */
+  getOutputNode(): GainNode | null {
+    return this.getMixer()?.getMaster().output ?? null;
+  }
+
+  /**
+   * Function to get the voices of the samples, the bus of every pad goes to its channel of the mixer
+   */
+  getVoiceManager(): VoiceManager | null {
+    const mixer = this.getMixer();
+    if (!this.voiceManager && this.audioContext && mixer) {
+      this.voiceManager = new VoiceManager(this.audioContext, (pad) => mixer.getChannel(pad).input);
+    }
+    return this.voiceManager;
+  }
+
+  getLoopSeam(): LoopSeam | null {
+    const audioContext = this.getAudioContext();
+    if (!this.loopSeam && audioContext) {
+      this.loopSeam = new LoopSeam(audioContext);
+    }
+    return this.loopSeam;
+  }
+
+  /**
+   * Function to crossfade the loop seam when the waveform jumps back from the loop end (seconds of the track)
+   * to the loop start, for the duration of the loop settings
+   */
+  crossfadeLoop(loopEnd: number) {
+    const buffer = (this.waveform?.backend as unknown as { buffer: AudioBuffer | null } | undefined)?.buffer;
+    const loopSeam = this.getLoopSeam();
+    if (!buffer || !loopSeam) {
+      return;
+    }
+    const rack = this.getEffectsRack();
+    const tailDestination = rack ? rack.input : (this.waveform?.backend as unknown as { gainNode: GainNode }).gainNode;
+    loopSeam.crossfade(buffer, loopEnd, this.waveform?.getPlaybackRate() ?? 1, loopSettings.get().crossfade, tailDestination);
+  }
+
+  getEffectsRack(): EffectsRack | null {
+    const audioContext = this.getAudioContext();
+    if (!this.effectsRack && audioContext) {
+      this.effectsRack = new EffectsRack(audioContext);
+    }
+    return this.effectsRack;
+  }
+
   //Function to load all the audio files at the bootstrap of the application
   loadAllSounds() {
-    this.loadSound('index', 'assets/sounds/kick.wav', "normal");
-    this.loadSound('middle', 'assets/sounds/snare.wav', "normal");
-    this.loadSound('ring', 'assets/sounds/hat.wav', "normal");
-    this.loadSound('pinky', 'assets/sounds/clap.wav', "normal");
-    
-    this.loadSound('index', 'assets/sounds/christmas-little-bells.mp3', "christmas");
-    this.loadSound('middle', 'assets/sounds/christmas-bell.mp3', "christmas");
-    this.loadSound('ring', 'assets/sounds/christmas-ding.mp3', "christmas");
-    this.loadSound('pinky', 'assets/sounds/merry-christmas.mp3', "christmas");
-
-    this.loadSound('index', 'assets/sounds/chords/faM.wav', "piano");
-    this.loadSound('middle', 'assets/sounds/chords/solm.wav', "piano");
-    this.loadSound('ring', 'assets/sounds/chords/rem.wav', "piano");
-    this.loadSound('pinky', 'assets/sounds/chords/sibM.wav', "piano");
+    kitRegistry.getAll().forEach((kit) => this.loadKit(kit));
+  }
+
+  // Load every sample declared by the kit manifest, with the velocity layers
+  loadKit(kit: SampleKit) {
+    (Object.keys(kit.samples) as DrumPad[]).forEach((pad) => {
+      this.loadSound(pad, kit.samples[pad], kit.id);
+      kit.layers?.[pad]?.forEach((layer) => this.loadSound(pad, layer.path, kit.id, layer.minVelocity));
+    });
   }
 
   // Load audio file and store it in the buffer
-  async loadSound(name: string, url: string, mode: string): Promise<void> {
+  async loadSound(name: DrumPad, url: string, kitId: Mode, minVelocity: number = 0): Promise<void> {
     if (!this.audioContext) {
       this.initializeAudioContext();
     }
 
     if (this.audioContext) {
-      this.createAudioContext(this.audioContext, name, url, mode);
+      this.createAudioContext(this.audioContext, name, url, kitId, minVelocity);
     }
 
   }
 
-  public async createAudioContext(audioContext: AudioContext, name: string, url: string, mode: string) {
+  public async createAudioContext(audioContext: AudioContext, name: DrumPad, url: string, kitId: Mode, minVelocity: number = 0) {
     const response = await fetch(url);
     const audioData = await response.arrayBuffer();
     const audioBuffer = await audioContext.decodeAudioData(audioData);
 
-    switch (mode) {
-      case "normal":
-        this.normalAudioBufferMap.set(name, audioBuffer);
-        break;
-      case "christmas":
-        this.christmasAudioBufferMap.set(name, audioBuffer);
-        break;
-      case "piano":
-        this.pianoAudioBufferMap.set(name, audioBuffer);
-        break;
-      default:
-        break;
+    if (!this.kitBufferMap.has(kitId)) {
+      this.kitBufferMap.set(kitId, new Map());
     }
+    const buffers = this.kitBufferMap.get(kitId)!;
+    const layers = (buffers.get(name) ?? []).filter((layer) => layer.minVelocity != minVelocity);
+    layers.push({ buffer: audioBuffer, minVelocity: minVelocity });
+    buffers.set(name, layers.sort((a, b) => a.minVelocity - b.minVelocity));
   }
 
-  // Play a loaded sound
-  public playSound(name: string): void {
-    if (!this.audioContext) {
-      this.initializeAudioContext();
-    }
-
-    if (this.audioContext) {
-      const source = this.audioContext.createBufferSource();
-      source.connect(this.audioContext.destination);
-
-      switch (currentMode.mode) {
-        case "normal":
-          if (this.normalAudioBufferMap.has(name)) {
-            source.buffer = this.normalAudioBufferMap.get(name)!;
-          }
-          break;
-        case "christmas":
-          if (this.audioContext && this.christmasAudioBufferMap.has(name)) {
-            source.buffer = this.christmasAudioBufferMap.get(name)!;
-          }
-          break;
-        case "piano":
-          if (this.audioContext && this.pianoAudioBufferMap.has(name)) {
-            source.buffer = this.pianoAudioBufferMap.get(name)!;
-          }
-          break;
-        default:
-          break;
-      }
-
-      source.start();
+  /**
+   * Play a loaded sound, right away or at the given time of the AudioContext clock. The velocity (0..1) picks the
+   * sample layer and sets the gain through the velocity curve of the kit. The voice manager plays it on the bus of the pad,
+   * cutting the voices of its choke group.
+   * Returns the source so that a scheduled sound can still be stopped
+   */
+  public playSound(name: DrumPad, when?: number, velocity: number = 1): AudioBufferSourceNode | undefined {
+    const voiceManager = this.getVoiceManager();
+
+    if (this.audioContext && voiceManager) {
+      // The loudest layer the velocity reaches
+      const layers = this.kitBufferMap.get(this.activeKit)?.get(name);
+      const layer = layers?.filter((l) => l.minVelocity <= velocity).pop() ?? layers?.[0];
+
+      const time = when ?? this.audioContext.currentTime;
+      const gain = velocityToGain(velocity, velocityCurves.get(this.activeKit));
+      const source = voiceManager.play(name, layer?.buffer, time, gain, kitRegistry.get(this.activeKit)?.chokeGroups?.[name]);
+      const hit: DrumHit = { pad: name, kit: this.activeKit, time: time, velocity: velocity, scheduled: when !== undefined };
+      this.hitListeners.forEach((listener) => listener(hit));
+      return source;
     }
+    return undefined;
   }
 
   //Function to change track over the waveForm
   public newTrack = () => {
-    this.waveform?.load("assets/sounds/" + this.getCurrentSong());
+    this.loadCurrentSong();
     this.waveform?.on('ready', () => {
       this.waveform?.play();
     });
     let current_voice = document.getElementById('current_voice') as HTMLOutputElement;
     current_voice.innerText = "🎙️ New Track ✅";
     let currentSongName = document.getElementById('currentSongName') as HTMLOutputElement;
-    currentSongName.innerHTML = "🟣 Now Playing: " + this.songs[this.currentSong].name;
+    const song = this.songs[this.currentSong];
+    // The names of the bundled songs can hold links, the titles of the user tracks are plain text
+    if (song.trackId) {
+      currentSongName.innerText = "🟣 Now Playing: " + song.name;
+    } else {
+      currentSongName.innerHTML = "🟣 Now Playing: " + song.name;
+    }
     this.fireListeners();
   }
 
+  /**
+   * Function to load the current song on the waveform, a file of assets/sounds/ or a track of the user library.
+   * A track the library cannot read is reported in place of the song name
+   */
+  async loadCurrentSong() {
+    const song = this.songs[this.currentSong];
+    try {
+      const url = song.trackId ? await trackLibrary.getTrackUrl(song.trackId) : "assets/sounds/" + song.path;
+      if (!url) {
+        throw new Error("Track not found in the library: " + song.name);
+      }
+      this.waveform?.load(url);
+    } catch (error: any) {
+      console.error("Error loading " + song.name + ":", error);
+      let currentSongName = document.getElementById('currentSongName') as HTMLOutputElement | null;
+      if (currentSongName) {
+        currentSongName.innerText = "❌ " + error.message;
+      }
+    }
+  }
+
   /**
    * Function to set the next song
    */
@@ -165,40 +381,89 @@ export class AudioManager {
     return this.songs[this.currentSong].path;
   }
 
-  setLauraSong() {
+  /**
+   * Function to switch to another playlist, from its first song. Nothing changes for an empty playlist
+   */
+  setPlaylist(name: string, songs: Song[], hidden: boolean = false) {
+    if (songs.length == 0) {
+      return;
+    }
     this.currentSong = 0;
-    this.songs = LAURA_SONGS;
+    this.songs = songs;
+    this.playlistName = name;
+    this.playlistHidden = hidden;
     this.fireListeners();
   }
 
-  setEmilioSong() {
-    this.currentSong = 0;
-    this.songs = EMILIO_SONGS;
-    this.fireListeners();
+  getPlaylistName() {
+    return this.playlistName;
   }
 
-  setNinaSong() {
-    this.currentSong = 0;
-    this.songs = NINA_SONGS;
-    this.fireListeners();
+  isPlaylistHidden() {
+    return this.playlistHidden;
   }
 
-  setChristmasSong() {
-    this.currentSong = 0;
-    this.songs = CHRISTMAS_SONGS;
-    this.fireListeners();
+  /**
+   * Function to play a playlist of the catalog (e.g. found by a voice command) from one of its songs
+   */
+  playPlaylist(playlist: CatalogPlaylist, songIndex: number = 0) {
+    this.setPlaylist(playlist.name, playlist.songs, playlist.hidden);
+    this.setCurrentSongIndex(songIndex);
+    this.newTrack();
   }
 
-  setPianoSong() {
-    this.currentSong = 0;
-    this.songs = PIANO_SONGS;
-    this.fireListeners();
+  /**
+   * Function to add audio files to the user library and play the first one, in the playlist of all the user tracks.
+   * Returns the files that could not be added
+   */
+  async addUserTracks(files: File[]): Promise<File[]> {
+    const audioContext = this.getAudioContext();
+    if (!audioContext) {
+      return files;
+    }
+    const failed: File[] = [];
+    let firstTrackId: string | undefined = undefined;
+    for (const file of files) {
+      try {
+        const track = await trackLibrary.addTrack(file, audioContext);
+        firstTrackId = firstTrackId ?? track.id;
+      } catch (error) {
+        console.error("Error adding the track " + file.name + ":", error);
+        failed.push(file);
+      }
+    }
+    if (firstTrackId) {
+      const songs = await trackLibrary.getSongs();
+      this.setPlaylist(USER_TRACKS_PLAYLIST, songs);
+      this.setCurrentSongIndex(songs.findIndex((song) => song.trackId == firstTrackId));
+      this.newTrack();
+    }
+    return failed;
   }
 
-  setNormalSongs() {
-    this.currentSong = 0;
-    this.songs = NORMAL_SONGS;
-    this.fireListeners();
+  /**
+   * Function to load the backing playlist of a kit, kits without their own playlist use the bundled one
+   */
+  setKitSongs(kitId: Mode) {
+    const kit = kitRegistry.get(kitId);
+    if (kit?.songs) {
+      this.setPlaylist(kit.name, kit.songs);
+    } else {
+      this.setPlaylist(BUNDLED_PLAYLIST.name, BUNDLED_PLAYLIST.songs);
+    }
+  }
+
+  /**
+   * Function to switch to another mode: its kit plays on the fingers and its playlist starts on the waveform
+   */
+  switchMode(mode: Mode) {
+    if (!kitRegistry.has(mode)) {
+      console.warn("No kit registered for the mode: " + mode);
+      return;
+    }
+    this.setKitSongs(mode);
+    this.newTrack();
+    currentMode.setMode(mode);
   }
 
   getCurrentSongName() {
@@ -1,4 +1,46 @@
-const currentMode = {
-    mode: "normal"
-  }
-export default currentMode
\ No newline at end of file
+// The id of a kit of the registry: every registered kit is a mode, there is no other list of them
+export type Mode = string;
+
+export interface ModeChangeEvent {
+    previous: Mode;
+    next: Mode;
+}
+
+export type ModeListener = (event: ModeChangeEvent) => void;
+
+/**
+ * Store holding the active mode of the application. Components subscribe to it in order to
+ * react when the mode changes, every listener receives both the previous and the next mode
+ */
+export class ModeStore {
+    private mode: Mode = "normal";
+    private listeners: ModeListener[] = [];
+
+    getMode(): Mode {
+        return this.mode;
+    }
+
+    setMode(mode: Mode) {
+        if (mode == this.mode) {
+            return;
+        }
+        const event: ModeChangeEvent = { previous: this.mode, next: mode };
+        this.mode = mode;
+        this.listeners.forEach((listener) => listener(event));
+    }
+
+    /**
+     * Returns a function that removes the listener, handy as a useEffect cleanup
+     */
+    subscribe(listener: ModeListener) {
+        this.listeners.push(listener);
+        return () => this.unsubscribe(listener);
+    }
+
+    unsubscribe(listener: ModeListener) {
+        this.listeners = this.listeners.filter((l) => l !== listener);
+    }
+}
+
+const currentMode = new ModeStore();
+export default currentMode;
@@ -1,6 +1,10 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { WaveSurfer } from 'wavesurfer-react/dist/utils/createWavesurfer';
 import { AudioManager } from '../AudioManager';
+import currentMode, { ModeChangeEvent } from '../CurrentMode';
+import kitRegistry from '../kits/KitRegistry';
+import { TempoResult, getBeatGrid } from '../tempo/TempoDetection';
+import { isAudioFile } from '../library/TrackLibrary';
 
 interface WaveformProps {
   audioUrl: string;
@@ -12,6 +16,9 @@ const AudioWaveComponent = React.forwardRef<WaveSurfer | null, WaveformProps>(
     const wavesurferRef = useRef<WaveSurfer | null>(null);
     let [songs, setSongs] = useState(soundManager.getSongs());
     let [currentSong, setCurrentSong] = useState(soundManager.getCurrentSongIndex());
+    const [tempo, setTempo] = useState<TempoResult | null>(soundManager.getTempo());
+    const [dropState, setDropState] = useState<"none" | "over" | "adding">("none");
+    const [dropMessage, setDropMessage] = useState<string>("");
 
     soundManager.addListener(() => {
       setSongs(soundManager.getSongs());
@@ -19,17 +26,21 @@ const AudioWaveComponent = React.forwardRef<WaveSurfer | null, WaveformProps>(
     });
 
     useEffect(() => {
+      // The default colors of WaveSurfer when the kit of the mode is missing
+      const colors = kitRegistry.get(currentMode.getMode())?.colors;
       const wavesurfer = WaveSurfer.create({
         container: '#waveform',
         backend: 'WebAudio',
-        waveColor: '#B01EB0',
-        progressColor: '#0B060E',
+        waveColor: colors?.waveColor,
+        progressColor: colors?.progressColor,
         cursorColor: '#F5F5F5',
         cursorWidth: 3,
         fillParent: true,
+        audioContext: soundManager.getAudioContext() ?? undefined,
       });
 
       wavesurfer.load(audioUrl);
+      soundManager.setWaveform(wavesurfer);
 
       wavesurferRef.current = wavesurfer;
 
@@ -40,6 +51,23 @@ const AudioWaveComponent = React.forwardRef<WaveSurfer | null, WaveformProps>(
       };
     }, [audioUrl]);
 
+    // Recolor the waveform with the colors of the kit of the new mode
+    useEffect(() => {
+      return currentMode.subscribe((event: ModeChangeEvent) => {
+        const kit = kitRegistry.get(event.next);
+        if (kit && wavesurferRef.current) {
+          wavesurferRef.current.setWaveColor(kit.colors.waveColor);
+          wavesurferRef.current.setProgressColor(kit.colors.progressColor);
+        }
+      });
+    }, []);
+
+    // The beat grid follows the tempo detected on every loaded track
+    useEffect(() => {
+      soundManager.addTempoListener(setTempo);
+      return () => soundManager.removeTempoListener(setTempo);
+    }, [soundManager]);
+
     // Assign the handlePlay function to the ref
     useEffect(() => {
       if (ref) {
@@ -53,12 +81,56 @@ const AudioWaveComponent = React.forwardRef<WaveSurfer | null, WaveformProps>(
 
     const changeSong = (index: number) => {
       soundManager.setCurrentSongIndex(index);
-      wavesurferRef.current?.load("assets/sounds/" + soundManager.getCurrentSong());
+      soundManager.loadCurrentSong();
+    };
+
+    // Audio files dropped on the waveform go to the track library and start playing
+    // The files that are not audio are reported with the ones that could not be added
+    const dropTracks = async (event: React.DragEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      const dropped = Array.from(event.dataTransfer.files);
+      const files = dropped.filter(isAudioFile);
+      const notAudio = dropped.filter((file) => !isAudioFile(file));
+      setDropMessage("");
+      if (files.length > 0) {
+        setDropState("adding");
+        const failed = await soundManager.addUserTracks(files);
+        notAudio.push(...failed);
+      }
+      setDropState("none");
+      if (notAudio.length > 0) {
+        setDropMessage("❌ Not added: " + notAudio.map((file) => file.name).join(", "));
+      }
     };
 
     return (
-      <div style={{ marginTop: '10px', background: '#f5f5f51f', padding: "10px", borderRadius: '20px', position: "relative", zIndex: 1 }}>
-        <div id="waveform">
+      <div style={{ marginTop: '10px', background: '#f5f5f51f', padding: "10px", borderRadius: '20px', position: "relative", zIndex: 1 }}
+        onDragOver={(event) => {
+          event.preventDefault();
+          if (dropState == "none") {
+            setDropState("over");
+          }
+        }}
+        onDragLeave={(event) => {
+          // Leaving the waveform for one of its children is not leaving the drop target
+          if (dropState == "over" && !event.currentTarget.contains(event.relatedTarget as Node | null)) {
+            setDropState("none");
+          }
+        }}
+        onDrop={dropTracks}>
+        {dropState != "none" &&
+          <div className="dropTarget">{dropState == "over" ? "Drop audio files to add them to your tracks 🎵" : "Adding tracks…"}</div>}
+        {dropMessage && <div className="dropMessage" onClick={() => setDropMessage("")}>{dropMessage}</div>}
+        <div style={{ position: "relative" }}>
+          <div id="waveform">
+          </div>
+          {tempo &&
+            <div className="beatGrid">
+              {getBeatGrid(tempo).map((beat) => (
+                <div key={beat.time} className={`beatLine ${beat.downbeat ? 'barLine' : ''}`} style={{ left: (beat.time / tempo.duration * 100) + "%" }}></div>
+              ))}
+              <span className="tempoLabel">{tempo.bpm.toFixed(1)} BPM</span>
+            </div>}
         </div>
         <div className='trackNumbers' style={{ position: "relative" }}>
           {songs.map((_: any, index: any) => (
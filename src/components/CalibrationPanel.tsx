@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from "react";
+import { CALIBRATION_STEPS, CalibrationSession } from "../models/CalibrationSession";
+import calibrations from "../models/Calibration";
+import controlBindings from "../models/ControlBindings";
+
+interface CalibrationPanelProps {
+    session: CalibrationSession
+}
+
+/**
+ * Panel to run the calibration wizard of the touch thresholds and save the result for the active binding profile
+ */
+const CalibrationPanel = (props: CalibrationPanelProps) => {
+    const { session } = props;
+    const [, setRevision] = useState<number>(0);
+    const [progress, setProgress] = useState<number>(0);
+
+    useEffect(() => {
+        const listener = () => setRevision((revision) => revision + 1);
+        session.addListener(listener);
+        calibrations.addListener(listener);
+        controlBindings.addListener(listener);
+        return () => {
+            session.removeListener(listener);
+            calibrations.removeListener(listener);
+            controlBindings.removeListener(listener);
+        };
+    }, [session]);
+
+    useEffect(() => {
+        const interval = setInterval(() => setProgress(session.getProgress()), 100);
+        return () => clearInterval(interval);
+    }, [session]);
+
+    const profile = controlBindings.getActiveProfile().name;
+    const calibration = calibrations.get(profile);
+    const state = session.getState();
+    const result = session.getResult();
+    const step = CALIBRATION_STEPS[session.getStepIndex()];
+
+    const save = () => {
+        if (result) {
+            calibrations.save(profile, result);
+            session.cancel();
+        }
+    };
+
+    return (
+        <div className="controlPanel">
+            <div className="panelRow">
+                <strong>Calibration 📏</strong>
+                <span style={{ marginLeft: "8px" }}>
+                    {profile}: {calibrations.isCalibrated(profile) ? "calibrated" : "default"} (pinch {calibration.pinchThreshold.toFixed(2)}, scissors {calibration.cutThreshold.toFixed(2)})
+                </span>
+                {session.isActive() ?
+                    <button className="panelButton panelButtonActive" onClick={() => session.cancel()}>Cancel</button> :
+                    <button className="panelButton" onClick={() => session.start()}>Calibrate</button>}
+                {calibrations.isCalibrated(profile) && !session.isActive() &&
+                    <button className="panelButton" onClick={() => calibrations.reset(profile)}>Reset</button>}
+            </div>
+            {session.isActive() && step &&
+                <div className="panelRow">
+                    <span>Step {session.getStepIndex() + 1}/{CALIBRATION_STEPS.length}: {step.instruction}</span>
+                    <span style={{ marginLeft: "8px" }}>{state == "waiting" ? "get ready…" : "recording"}</span>
+                    <progress value={progress} max={1} style={{ marginLeft: "8px", width: "80px" }} />
+                </div>}
+            {state == "done" && result &&
+                <div className="panelRow">
+                    Pinch {result.pinchThreshold.toFixed(2)}, scissors {result.cutThreshold.toFixed(2)} of the hand size
+                    <button className="panelButton" onClick={save}>Save for {profile}</button>
+                    <button className="panelButton" onClick={() => session.cancel()}>Discard</button>
+                </div>}
+            {state == "failed" && <div className="panelRow">❌ {session.getError()}</div>}
+        </div>
+    );
+};
+
+export default CalibrationPanel;
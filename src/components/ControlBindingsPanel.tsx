@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from "react";
+import controlBindings, {
+    BINDING_HANDS, BindingHand, CONTROL_ACTIONS, CONTROL_STATES, ControlAction, ControlBinding, ControlBindingProfile,
+    ControlState, GESTURE_NAMES, GestureName, describeControlAction
+} from "../models/ControlBindings";
+
+/**
+ * Panel to pick the binding profile of the performer and remap which (gesture, hand) enters which control state.
+ * Editing a preset profile saves the changes as a new profile under the typed name
+ */
+const ControlBindingsPanel = () => {
+    const [profile, setProfile] = useState<ControlBindingProfile>(controlBindings.getActiveProfile());
+    const [draft, setDraft] = useState<ControlBindingProfile>(controlBindings.getActiveProfile());
+    const [name, setName] = useState<string>("");
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+
+    useEffect(() => {
+        const onProfileChange = (activeProfile: ControlBindingProfile) => {
+            setProfile(activeProfile);
+            setDraft(activeProfile);
+        };
+        controlBindings.addListener(onProfileChange);
+        return () => controlBindings.removeListener(onProfileChange);
+    }, []);
+
+    const updateBinding = (index: number, binding: ControlBinding) => {
+        setDraft({ ...draft, bindings: draft.bindings.map((b, i) => i == index ? binding : b) });
+    };
+
+    const toggleCancel = (index: number, state: ControlState) => {
+        const binding = draft.bindings[index];
+        const cancels = binding.cancels.includes(state) ? binding.cancels.filter((s) => s != state) : [...binding.cancels, state];
+        updateBinding(index, { ...binding, cancels: cancels });
+    };
+
+    const addBinding = () => {
+        setDraft({ ...draft, bindings: [...draft.bindings, { gesture: "None", hand: "Any", action: "none", cancels: [] }] });
+    };
+
+    const removeBinding = (index: number) => {
+        setDraft({ ...draft, bindings: draft.bindings.filter((_, i) => i != index) });
+    };
+
+    const saveProfile = () => {
+        const profileName = name.trim() || draft.name;
+        if (controlBindings.isPreset(profileName)) {
+            return;
+        }
+        controlBindings.saveProfile({ ...draft, name: profileName });
+        setName("");
+    };
+
+    const hasChanges = JSON.stringify(draft) != JSON.stringify(profile);
+    const targetName = name.trim() || draft.name;
+
+    return (
+        <div className="controlPanel">
+            <div className="panelRow">
+                <strong>Gesture bindings 🤚</strong>
+                <select value={profile.name} style={{ marginLeft: "8px" }} onChange={(event) => controlBindings.setActiveProfile(event.target.value)}>
+                    {controlBindings.getProfiles().map((p) => <option key={p.name} value={p.name}>{p.name}</option>)}
+                </select>
+                <button className="panelButton" onClick={() => setIsOpen(!isOpen)}>{isOpen ? "Hide" : "Edit"}</button>
+                {!controlBindings.isPreset(profile.name) &&
+                    <button className="panelButton" onClick={() => controlBindings.deleteProfile(profile.name)}>Delete</button>}
+            </div>
+            {isOpen && <>
+                <div className="panelRow">
+                    <span className="panelLabel">Drums</span>
+                    <select value={draft.drumHand} onChange={(event) => setDraft({ ...draft, drumHand: event.target.value as BindingHand })}>
+                        {BINDING_HANDS.map((hand) => <option key={hand} value={hand}>{hand} hand</option>)}
+                    </select>
+                </div>
+                {draft.bindings.map((binding, index) => (
+                    <div key={index} className="panelRow">
+                        <select value={binding.gesture} onChange={(event) => updateBinding(index, { ...binding, gesture: event.target.value as GestureName })}>
+                            {GESTURE_NAMES.map((gesture) => <option key={gesture} value={gesture}>{gesture}</option>)}
+                        </select>
+                        <select value={binding.hand} onChange={(event) => updateBinding(index, { ...binding, hand: event.target.value as BindingHand })}>
+                            {BINDING_HANDS.map((hand) => <option key={hand} value={hand}>{hand}</option>)}
+                        </select>
+                        <span style={{ marginLeft: "4px" }}>→</span>
+                        <select value={binding.action} onChange={(event) => updateBinding(index, { ...binding, action: event.target.value as ControlAction })}>
+                            {CONTROL_ACTIONS.map((action) => <option key={action} value={action}>{describeControlAction(action)}</option>)}
+                        </select>
+                        <span style={{ marginLeft: "8px" }}>cancels</span>
+                        {CONTROL_STATES.map((state) => (
+                            <label key={state}>
+                                <input type="checkbox" checked={binding.cancels.includes(state)} onChange={() => toggleCancel(index, state)} />
+                                {state}
+                            </label>
+                        ))}
+                        <button className="panelButton" onClick={() => removeBinding(index)}>×</button>
+                    </div>
+                ))}
+                <div className="panelRow">
+                    <button className="panelButton" onClick={addBinding}>Add binding</button>
+                    <input type="text" value={name} placeholder="Profile name" style={{ marginLeft: "8px" }} onChange={(event) => setName(event.target.value)} />
+                    <button className="panelButton" onClick={saveProfile} disabled={controlBindings.isPreset(targetName) || (!hasChanges && targetName == profile.name)}>
+                        Save as {targetName}
+                    </button>
+                    <button className="panelButton" onClick={() => setDraft(profile)} disabled={!hasChanges}>Reset</button>
+                </div>
+            </>}
+        </div>
+    );
+};
+
+export default ControlBindingsPanel;
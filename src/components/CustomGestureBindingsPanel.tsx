@@ -0,0 +1,52 @@
+import React, { useState } from "react";
+import customGestureBinder, { CustomGestureAction, CustomGestureBinding, describeAction, getCustomGestureActions } from "../models/CustomGestureBindings";
+
+interface CustomGestureBindingsPanelProps {
+    labels: string[]
+}
+
+/**
+ * Table to choose the action of every class of the custom classifier, with its confidence threshold and debounce
+ */
+const CustomGestureBindingsPanel = (props: CustomGestureBindingsPanelProps) => {
+    const [, setRevision] = useState<number>(0);
+
+    const updateBinding = (binding: CustomGestureBinding) => {
+        customGestureBinder.setBinding(binding);
+        setRevision((revision) => revision + 1);
+    };
+
+    if (props.labels.length == 0) {
+        return null;
+    }
+
+    return (
+        <div className="controlPanel">
+            <strong>Custom gesture actions ✨</strong>
+            {props.labels.map((label) => {
+                const binding = customGestureBinder.getBinding(label);
+                return (
+                    <div key={label} className="panelRow">
+                        <span className="panelLabel">{label}</span>
+                        <select value={binding.action} onChange={(event) => updateBinding({ ...binding, action: event.target.value as CustomGestureAction })}>
+                            {getCustomGestureActions().map((action) => <option key={action} value={action}>{describeAction(action)}</option>)}
+                        </select>
+                        <label>
+                            Min {Math.round(binding.threshold * 100)}%
+                            <input type="range" min={0.5} max={1} step={0.01} value={binding.threshold}
+                                onChange={(event) => updateBinding({ ...binding, threshold: parseFloat(event.target.value) })} />
+                        </label>
+                        <label>
+                            Debounce
+                            <input type="number" min={0} step={100} value={binding.debounce} style={{ width: "60px", marginLeft: "4px" }}
+                                onChange={(event) => updateBinding({ ...binding, debounce: parseInt(event.target.value) || 0 })} />
+                            ms
+                        </label>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default CustomGestureBindingsPanel;
@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from "react";
+import { AudioManager } from "../AudioManager";
+import { EFFECT_TYPES, EffectType } from "../effects/EffectsRack";
+
+interface EffectsPanelProps {
+    soundManager: AudioManager
+}
+
+/**
+ * Panel with the wet/dry and main parameter sliders of every effect of the rack.
+ * It follows the rack, so the values moved by the gestures are shown here as well
+ */
+const EffectsPanel = (props: EffectsPanelProps) => {
+    const rack = props.soundManager.getEffectsRack();
+    const [, setRevision] = useState<number>(0);
+
+    useEffect(() => {
+        const listener = () => setRevision((revision) => revision + 1);
+        rack?.addListener(listener);
+        return () => rack?.removeListener(listener);
+    }, [rack]);
+
+    if (!rack) {
+        return null;
+    }
+
+    const handleWetChange = (type: EffectType, event: React.ChangeEvent<HTMLInputElement>) => {
+        rack.setWet(type, parseFloat(event.target.value));
+    };
+
+    const handleAmountChange = (type: EffectType, event: React.ChangeEvent<HTMLInputElement>) => {
+        rack.setAmount(type, parseFloat(event.target.value));
+    };
+
+    return (
+        <div className="controlPanel">
+            <strong>Effects 🎛️</strong>
+            <button className="panelButton" onClick={() => rack.bypassAll()}>Bypass all</button>
+            {EFFECT_TYPES.map((type) => {
+                const effect = rack.getEffect(type);
+                return (
+                    <div key={type} className="panelRow">
+                        <span className="panelLabel">{effect.name}</span>
+                        <label>
+                            Wet
+                            <input type="range" min={0} max={1} step={0.01} value={effect.getWet()} onChange={(event) => handleWetChange(type, event)} />
+                        </label>
+                        <label>
+                            {effect.getAmountText()}
+                            <input type="range" min={0} max={1} step={0.01} value={effect.getAmount()} onChange={(event) => handleAmountChange(type, event)} />
+                        </label>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default EffectsPanel;
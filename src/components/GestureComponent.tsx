@@ -5,10 +5,25 @@ import 'bootstrap/dist/css/bootstrap.css';
 
 import { GestureRecognizer, FilesetResolver, DrawingUtils } from '@mediapipe/tasks-vision';
 import WaveSurfer from "wavesurfer.js";
-import * as tf from '@tensorflow/tfjs';
 import { GestureModel } from "../models/GestureModel";
 import { AudioManager } from "../AudioManager";
+import { DrumPad } from "../kits/SampleKit";
+import kitRegistry from "../kits/KitRegistry";
 import VolumeProgressBar from "./VolumeProgressBar";
+import GestureLibraryPanel from "./GestureLibraryPanel";
+import gestureLibrary from "../models/GestureLibrary";
+import { CustomGestureClassifier, GesturePrediction, GestureSample, countSamplesPerClass, getClassLabels } from "../models/CustomGestureClassifier";
+import customGestureBinder, { CustomGestureAction, describeAction } from "../models/CustomGestureBindings";
+import CustomGestureBindingsPanel from "./CustomGestureBindingsPanel";
+import TrainingPanel from "./TrainingPanel";
+import ControlBindingsPanel from "./ControlBindingsPanel";
+import GestureTracePanel from "./GestureTracePanel";
+import CalibrationPanel from "./CalibrationPanel";
+import { CalibrationSession } from "../models/CalibrationSession";
+import { IntentAdapter } from "../intents/IntentAdapter";
+import { GestureIntent } from "../intents/GestureIntent";
+import { GestureTraceRecorder } from "../recording/GestureTrace";
+import { GestureFrame, createGestureFrame, extractWindowFeatures } from "../utils/GestureFeatures";
 
 
 export interface Coordinates {
@@ -19,11 +34,12 @@ export interface Coordinates {
 interface GestureComponentProps {
     video: HTMLVideoElement | null,
     waveform: WaveSurfer | null,
-    soundManager: AudioManager
+    soundManager: AudioManager,
+    adapter: IntentAdapter
 }
 
 const GestureComponent = (props: GestureComponentProps) => {
-    const { video, waveform, soundManager } = props;
+    const { video, waveform, soundManager, adapter } = props;
     let gestureRecognizer: GestureRecognizer | null = null;
 
     let canvasElement: any | null = null;
@@ -31,138 +47,146 @@ const GestureComponent = (props: GestureComponentProps) => {
     let results: any = undefined;
     const videoHeight = "100vh";
     const videoWidth = "auto";
-    let volumeTimer: any = null;
+    const volumeTimerRef = useRef<any>(null);
 
-    const model: GestureModel = new GestureModel(soundManager);
+    const [model] = useState(() => new GestureModel());
+    const [traceRecorder] = useState(() => new GestureTraceRecorder());
+    const [calibrationSession] = useState(() => new CalibrationSession());
 
     const [volume, setVolume] = useState<number>(50);
     const [isVolumeVisible, setIsVolumeVisible] = useState<boolean>(false);
     const [isRecording, setIsRecording] = useState<boolean>(false);
-    const [recordingStartTime, setRecordingStartTime] = useState<number | null>(null); //msx: manage recording time
-    const [frameBuffer, setFrameBuffer] = useState<any[]>([]); //msxL manage frame buffer
     const isRecordingRef = useRef(isRecording); // useRef to track the recording state
-    const SLIDING_WINDOW_SIZE = 10; // Number of frames to keep in the sliding window
+    const recordingStartTimeRef = useRef<number>(0); //msx: manage recording time
+    const frameBufferRef = useRef<GestureFrame[]>([]); //msx: manage frame buffer
+    const liveBufferRef = useRef<GestureFrame[]>([]); // Last frames seen by the webcam, used to recognize the custom gestures
 
     const handleRecordButtonClick = () => {
-        setIsRecording(prevIsRecording => {
-            const newRecordingState = !prevIsRecording;
-            console.log(newRecordingState ? "Started Recording" : "Stopped Recording");
-            isRecordingRef.current = newRecordingState;
-            if (newRecordingState) {
-                startRecording(); // Start recording if the new state is true
-            } else {
-                stopRecording(); // Stop recording if the new state is false
-            }
-            
-            return newRecordingState;
-        });
+        if (isRecordingRef.current) {
+            stopRecording();
+        } else {
+            startRecording();
+        }
     };
     
-    const [recordedGestures, setRecordedGestures] = useState<any[]>([]);
-    const [classifier, setClassifier] = useState<any>(null);
-    const [buttonColor, setButtonColor] = useState<string>('blue');
+    const [recordedGestures, setRecordedGestures] = useState<GestureSample[]>([]);
+    const [classifier, setClassifier] = useState<CustomGestureClassifier | null>(null);
+    const [classifierError, setClassifierError] = useState<string>(""); // why the classifier of the previous session was not loaded
+    const classifierRef = useRef<CustomGestureClassifier | null>(null); // The webcam loop reads the classifier through this ref
     const [gestureLabel, setGestureLabel] = useState(""); // State to hold the gesture label
+    const gestureLabelRef = useRef(gestureLabel);
+
+    // Keep the ref in sync with the classifier trained or loaded
+    const updateClassifier = (newClassifier: CustomGestureClassifier | null) => {
+        classifierRef.current = newClassifier;
+        setClassifier(newClassifier);
+        if (newClassifier) {
+            setClassifierError("");
+        }
+    };
+
+    // Load the classifier selected in the previous session, so that the custom gestures are recognized right away
+    useEffect(() => {
+        const selectedClassifier = gestureLibrary.getSelectedClassifier();
+        if (selectedClassifier) {
+            gestureLibrary.loadClassifier(selectedClassifier).then((loadedClassifier) => {
+                console.log("Classifier loaded:", selectedClassifier);
+                updateClassifier(loadedClassifier);
+            }).catch((error) => {
+                console.error("Error loading the classifier " + selectedClassifier + ":", error);
+                gestureLibrary.setSelectedClassifier(null);
+                setClassifierError("❌ " + (error?.message ?? error));
+            });
+        }
+    }, []);
 
     //msx: Handle the gesture label change
     const handleLabelChange = (event: React.ChangeEvent<HTMLInputElement>) => {
         setGestureLabel(event.target.value);
+        gestureLabelRef.current = event.target.value;
     };
-    
-    const MAX_RECORDING_DURATION = 2000; // 2 seconds
 
-    const normalizeCoordinates = (landmarks: any) => {
-        const basePoint = landmarks[0]; // Assuming wrist as the base point
-        return landmarks.map((point: any) => ({
-            x: (point.x - basePoint.x),
-            y: (point.y - basePoint.y),
-            z: point.z ? (point.z - basePoint.z) : 0.0
-        }));
+    // Pick an existing class to record more samples of it
+    const selectClass = (label: string) => {
+        setGestureLabel(label);
+        gestureLabelRef.current = label;
     };
 
+    // Remove every sample of a class
+    const removeClass = (label: string) => {
+        setRecordedGestures(prevGestures => prevGestures.filter((gesture) => gesture.y != label));
+    };
+    
+    const MAX_RECORDING_DURATION = 2000; // 2 seconds
+
     //msx: This function starts the recording process by initializing the buffer and setting the recording state
     const startRecording = () => {
-        setIsRecording(true);
-        setFrameBuffer([]); // Clear any previous data
-        setRecordingStartTime(Date.now()); // Record the start time
+        if (gestureLabelRef.current.trim() == "") {
+            console.warn("Type a gesture label before recording");
+            return;
+        }
+        frameBufferRef.current = []; // Clear any previous data
+        recordingStartTimeRef.current = Date.now(); // Record the start time
         isRecordingRef.current = true; // Ensure the ref is updated immediately
+        setIsRecording(true);
         console.log("Recording started");
         // Automatically stop recording after the max duration
-        const timeoutID = setTimeout(() => {
-            console.log("Inside setTimeout");
-            if (isRecordingRef.current){ 
+        setTimeout(() => {
+            if (isRecordingRef.current) {
                 console.log("Timeout triggered after 2 seconds");
-                handleRecordButtonClick(); // Trigger the same function as the button click
-                //setIsRecording(false); // Update the state to stop recording
-        }
+                stopRecording();
+            }
         }, MAX_RECORDING_DURATION);
-
-        // Optional: Clear timeout if component unmounts or recording stops before timeout
-        return () => clearTimeout(timeoutID);
-    };
-
-    //msx: Captures a single frame of gesture data and adds it to the frame buffer
-    const captureFrame = (landmarks: any) => {
-        if (isRecording && recordingStartTime) {
-            //const features = extractGestureFeatures(landmarks);
-            console.log("Inside Capture Frame");
-            const normalizedLandmarks = normalizeCoordinates(landmarks);
-            const features = extractGestureFeatures(normalizedLandmarks);
-            console.log("Captured Frame:", features);
-
-            //Need to change the sliding window
-            setFrameBuffer(prevBuffer => {
-                const updatedBuffer = [...prevBuffer, features];
-                if (updatedBuffer.length > SLIDING_WINDOW_SIZE) {
-                    updatedBuffer.shift(); // Remove the oldest frame to maintain the sliding window size
-                }
-                return updatedBuffer;
-            });
-
-        }
     };
 
-    //msx: Feature extraction from the sliding window
-    const extractFeatures = (buffer: any[]) => {
-        const feats_per_t = 3;  // 2D (x, y) + 3D (z) = 3 features per time step
-        const normal_seq_len = 10;  // Sliding window size
-        const features = new Array(feats_per_t * normal_seq_len).fill(0.0);
-
-        //(depreacted) for (let t = 0; t < buffer.length; t++) { 
-        for (let t = 0; t < buffer.length && t < normal_seq_len; t++) {    
-            const point = buffer[t];
-            console.log("Point:", point);
-            if (point.length > 0) {
-                for (let f = 0; f < point.length; f++) {
-                    features[feats_per_t * t + f] = point[f];
-                    
-                }
+    //msx: Captures a single frame of gesture data, with both hands, and adds it to the frame buffer
+    const captureFrame = (buffer: GestureFrame[], results: any, maxDuration?: number) => {
+        const timestamp = Date.now();
+        buffer.push(createGestureFrame(results, timestamp));
+        if (maxDuration != undefined) {
+            // Sliding window: remove the frames older than the window
+            while (buffer.length > 0 && timestamp - buffer[0].timestamp > maxDuration) {
+                buffer.shift();
             }
         }
-
-        return features;
     };
 
     //msx: Stops the recording process, stores the gesture, and resets the recording state
     const stopRecording = () => {
-        if (isRecording) {
-            setIsRecording(false);
+        if (isRecordingRef.current) {
             isRecordingRef.current = false; // Ensure the ref is updated immediately
-            const duration = Date.now() - (recordingStartTime || 0); // Calculate the duration of the recording
-            if (frameBuffer.length > 0) {
-                const features = extractFeatures(frameBuffer);
-                const gesture = { x: features, y: "gestureLabel", duration }; // Store the gesture along with its duration (Changed from FrameBuffer to features)
+            setIsRecording(false);
+            const duration = Date.now() - recordingStartTimeRef.current; // Calculate the duration of the recording
+            if (frameBufferRef.current.some((frame) => frame.hands.length > 0)) {
+                const features = extractWindowFeatures(frameBufferRef.current);
+                const gesture: GestureSample = { x: features, y: gestureLabelRef.current.trim(), duration };
                 setRecordedGestures(prevGestures => [...prevGestures, gesture]); // Save the gesture
-                //console.log("Gesture recorded:", gesture);
             }
             else {
                 console.log("No frames to capture");
             }
-            
-            setRecordingStartTime(null); // Reset the recording start time
         }
     };
 
-
+    // Show the volume bar for a while after every volume change
+    useEffect(() => {
+        const onIntent = (intent: GestureIntent) => {
+            if (intent.type != "SetVolume") {
+                return;
+            }
+            setVolume(Math.min(100, parseFloat((intent.volume * 100).toFixed(0))));
+            setIsVolumeVisible(true);
+            if (volumeTimerRef.current != null) {
+                clearTimeout(volumeTimerRef.current);
+            }
+            volumeTimerRef.current = setTimeout(() => {
+                setIsVolumeVisible(false);
+                volumeTimerRef.current = null;
+            }, 3000);
+        };
+        adapter.addListener(onIntent);
+        return () => adapter.removeListener(onIntent);
+    }, [adapter]);
 
     useEffect(() => {
         if (video && waveform && gestureRecognizer == null) {
@@ -176,8 +200,7 @@ const GestureComponent = (props: GestureComponentProps) => {
             });
             setAudioObjects();
         }
-        isRecordingRef.current = isRecording; //Update the ref with latest recording state 
-    }, [video, waveform, isRecording]);
+    }, [video, waveform]);
 
     const createGestureRecognizer = async () => {
         let recognizer = await loadModelWithRetry();
@@ -188,7 +211,7 @@ const GestureComponent = (props: GestureComponentProps) => {
             console.error("Gesture recognizer creation failed.");
         }
 
-        if (!model.haveRegions()) {
+        if (!adapter.haveRegions()) {
             const regions = waveform?.addPlugin(RegionsPlugin.create({}));
             regions?.on('region-created', (region: any) => {
                 if (region.loop) {
@@ -197,13 +220,14 @@ const GestureComponent = (props: GestureComponentProps) => {
             });
             regions?.on('region-out', (region: any) => {
                 if (region.loop) {
+                    soundManager.crossfadeLoop(region.end);
                     region.play();
                 }
             });
             regions?.on('region-removed', (_: any) => {
                 waveform?.play();
             });
-            model.setRegions(regions);
+            adapter.setRegions(regions);
         }
     };
 
@@ -242,25 +266,28 @@ const GestureComponent = (props: GestureComponentProps) => {
             if (video && video.videoHeight > 0 && video.videoWidth > 0) {
                 //console.log("Video is loaded and has dimensions:", video.videoHeight, video.videoWidth);
                 try {
-                    results = await gestureRecognizer.recognizeForVideo(video, Date.now());
+                    const timestamp = Date.now();
+                    results = await gestureRecognizer.recognizeForVideo(video, timestamp);
                     console.log("Webcam Gesture recognizer results:", results); // Add this log
                     //console.log("Gesture recognizer returned results:", results);
-                    if (isRecordingRef.current ) {//msx: test with current ref
-                        console.log("Should n't be on always: Attempting to store gesture"); // Log before storing
-
-                        storeGesture(results);
-
+                    if (calibrationSession.isActive()) {
+                        calibrationSession.capture(results, timestamp);
                     }
-                    else {
-                        //console.log("Recording is not active, not storing gesture");
+                    if (traceRecorder.isRecording()) {
+                        traceRecorder.capture(results, timestamp, waveform ? waveform.getCurrentTime() : 0);
                     }
-                    if (classifier) {
-                        console.log("Attempting to recognize gesture"); // Log before recognizing
-                        recognizeGesture(results.landmarks);
-
+                    if (isRecordingRef.current) {
+                        captureFrame(frameBufferRef.current, results);
+                    }
+                    if (classifierRef.current) {
+                        captureFrame(liveBufferRef.current, results, classifierRef.current.windowDuration);
+                        recognizeGesture();
                     }
                     drawHands();
-                    performAction();
+                    // The calibration poses must not play the drums nor cut loops
+                    if (!calibrationSession.isActive()) {
+                        performAction(timestamp);
+                    }
                 } catch (error) {
                     console.error("Error during gesture recognition:", error);
                 }
@@ -306,201 +333,77 @@ const GestureComponent = (props: GestureComponentProps) => {
         canvasCtx.restore();
     };
 
-    const performAction = () => {
-        //console.log("Performing action based on gesture...");
-        if (results && results.gestures.length == 0) {
-            let current_gesture = document.getElementById('current_gesture') as HTMLOutputElement;
-            current_gesture.innerText = "🙌";
-        }
-
-        if (results && results.gestures.length > 0) {
-            for (let i = 0; i < results.gestures.length; i++) {
-                const categoryName = results.gestures[i][0].categoryName;
-                const handedness = results.handednesses[i][0].displayName;
-
-                detectAction(categoryName, handedness, results.landmarks[i]);
-                handleDrums(handedness, results.landmarks[i]);
-                handlePlayPause();
-                handleEffects(handedness, results.landmarks[i]);
-                handleRegions();
-                handleVolume(results.landmarks[i]);
-            }
+    const performAction = (timestamp: number) => {
+        if (results) {
+            adapter.applyAll(model.processFrame(results, waveform ? waveform.getCurrentTime() : 0, timestamp));
         }
     };
 
-    const detectAction = (categoryName: string, handedness: string, landmarks: any) => {
-        let current_gesture = document.getElementById('current_gesture') as HTMLOutputElement;
-        model.updateFSMStates(categoryName, handedness, landmarks, current_gesture, model.wsRegions);
-        setGestureMesssage();
-    };
-
-    const setGestureMesssage = () => {
-        let current_gesture = document.getElementById('current_gesture') as HTMLOutputElement;
-        let cutText = model.getCutText();
-        if (cutText) {
-            current_gesture.innerText = cutText;
-        }
-    };
-
-    const handleDrums = (handedness: string, landmarks: any) => {
-        if (handedness == "Left") {
-            let sound = model.getDrumSound(landmarks);
-            if (sound) {
-                ReactGA.event({ category: 'User Interaction', action: 'gesture', label: sound });
-                soundManager.playSound(sound);
-                let current_gesture = document.getElementById('current_gesture') as HTMLOutputElement;
-                current_gesture.innerText = "🥁 ✅";
-            }
-        }
-    };
-
-    const handlePlayPause = () => {
-        if (waveform && model.runPlayPause()) {
-            waveform.playPause();
-        }
-    };
-
-    const handleEffects = (handedness: string, landmarks: any) => {
-        let speedText = model.getSpeedText(landmarks, handedness);
-        if (speedText) {
-            let current_gesture = document.getElementById('current_gesture') as HTMLOutputElement;
-            current_gesture.innerText = speedText;
-            waveform?.setPlaybackRate(soundManager.getSpeedValue());
-        }
-    };
-
-    const handleRegions = () => {
-        if (waveform) {
-            model.handleLoopRegions(waveform.getCurrentTime());
+    const recognizeGesture = () => {
+        const classifier = classifierRef.current;
+        const frames = liveBufferRef.current;
+        // Wait for a full window with at least a hand in it
+        if (classifier && frames.length > 1 && frames[frames.length - 1].timestamp - frames[0].timestamp >= classifier.windowDuration * 0.9 && frames.some((frame) => frame.hands.length > 0)) {
+            handleCustomGesture(classifier.predict(extractWindowFeatures(frames)));
         }
     };
 
-    const handleVolume = (landmarks: any) => {
-        if (model.isVolumeStarted()) {
-            let currentVolume: number = 1 - landmarks[8].x;
-            setVolume(Math.min(100, parseFloat((currentVolume * 100).toFixed(0))));
-            setIsVolumeVisible(true);
-            waveform?.setVolume(currentVolume);
-
-            if (volumeTimer != null) {
-                clearTimeout(volumeTimer);
-            }
-            volumeTimer = setTimeout(() => {
-                setIsVolumeVisible(false);
-                volumeTimer = null;
-            }, 3000);
+    // Show the recognized custom gesture and run the action bound to it
+    const handleCustomGesture = (prediction: GesturePrediction) => {
+        if (!customGestureBinder.isConfident(prediction)) {
+            return;
         }
-    };
-
-    //msx: Extract gesture features using a consistent function
-    const extractGestureFeatures = (landmarks: any) => {
-        if (!landmarks || landmarks.length === 0) return [0.0, 0.0, 0.0, 0.0, 0.0];
-        const keypoint = landmarks[8]; // Assume index 8 for a specific keypoint, Index Finger here, can be adjusted
-        //const keypoint3d = landmarks3d[8]; // Assume index 8 for a specific keypoint, Index Finger here, can be adjusted
-        return [keypoint.x, keypoint.y, keypoint.z || 0.0]; // Consider x, y, and possibly z if available
-    };
-    
-    const storeGesture = (results: any) => {
-        console.log("Gesture recognizer results:", results); // Check what `results` contains
-        
-        if (results && results.landmarks && results.landmarks.length > 0) {
-            captureFrame(results.landmarks[0]);
-            //const landmarks = results.landmarks[8];
-            //const features = extractGestureFeatures(results.landmarks[0]);
-            
-            //landmarks.map((point: any) => [point.x, point.y, point.z]);
-            /* 
-            
-            
-            console.log("Storing gesture features:", features); 
-            setRecordedGestures(prevData => {
-                const updatedGestures = [...prevData, { x: features, y: "gestureLabel" }];
-                console.log("Gesture recorded:", updatedGestures);
-                return updatedGestures;
-            });
-            console.log("Gesture data stored:", { x: features.flat(), y: "gestureLabel" });
-            */
-
+        let current_gesture = document.getElementById('current_gesture') as HTMLOutputElement;
+        current_gesture.innerText = "✨ " + prediction.label + " " + Math.round(prediction.confidence * 100) + "%";
+        const action = customGestureBinder.process(prediction);
+        if (action) {
+            // The performed gesture stays in the window longer than the debounce, it must not fire once more
+            liveBufferRef.current.length = 0;
+            ReactGA.event({ category: 'User Interaction', action: 'customGesture', label: action });
+            performCustomAction(action);
+            current_gesture.innerText += " → " + describeAction(action) + " ✅";
         }
     };
 
-    const trainModel = () => {
-        console.log("Start");
-        if (recordedGestures.length > 0) {
-            const inputs = recordedGestures.map(data => {
-                return extractFeatures(data.x);
-                //data.x.flat(); // Flatten the input features 
-                // A: The model expects a 1D array of features, so we flatten the 2D array  
-                // Check if the data is in the expected format
-                //if (Array.isArray(data.x) && data.x.every(Number.isFinite)) {
-                   
-                //} else {
-                    //console.error("Invalid data format", data);
-                    //return null;
-                //}
-            }).filter(input => input !== null);
-            console.log("Inputs:", inputs);
-            const labels = recordedGestures.map(data => data.y === "gestureLabel" ? [1, 0, 0, 0] : [0, 1, 0, 0]);
-
-            const xs = tf.tensor2d(inputs);
-            console.log("Tensor Shape:", xs.shape);
-            const ys = tf.tensor2d(labels);
-
-            const model = tf.sequential();
-            model.add(tf.layers.dense({ units: 64, activation: 'relu', inputShape: [inputs[0].length] }));
-            model.add(tf.layers.dense({ units: 32, activation: 'relu' }));
-            model.add(tf.layers.dense({ units: 4, activation: 'softmax' }));
-
-            model.compile({
-                optimizer: 'adam',
-                loss: 'categoricalCrossentropy',
-                metrics: ['accuracy'],
-            });
-
-        // Train the model
-        model.fit(xs, ys, {
-            epochs: 20,
-            callbacks: {
-                onEpochEnd: (epoch, logs) => {
-                    console.log(`Epoch ${epoch + 1}: loss = ${logs?.loss}, accuracy = ${logs?.acc}`);
-                },
-                onTrainEnd: () => {
-                    console.log("Training complete");
+    const performCustomAction = (action: CustomGestureAction) => {
+        switch (action) {
+            case "playPause":
+                adapter.apply({ type: "TogglePlayback" });
+                break;
+            case "nextTrack":
+                soundManager.nextSong();
+                soundManager.newTrack();
+                break;
+            case "loopStart":
+                if (waveform) {
+                    adapter.applyAll(model.setLoopStart(waveform.getCurrentTime()));
+                }
+                break;
+            case "loopEnd":
+                if (waveform) {
+                    adapter.applyAll(model.setLoopEnd(waveform.getCurrentTime()));
                 }
+                break;
+            case "clearLoop":
+                adapter.applyAll(model.clearLoop());
+                break;
+            case "halveLoop":
+            case "doubleLoop":
+                adapter.apply({ type: "ScaleLoop", factor: action == "halveLoop" ? 0.5 : 2 });
+                break;
+            default: {
+                const [kind, value] = action.split(":");
+                if (kind == "sample") {
+                    adapter.apply({ type: "DrumHit", pad: value as DrumPad, velocity: 1 });
+                } else if (kind == "mode" && kitRegistry.has(value)) {
+                    soundManager.switchMode(value);
+                }
+                break;
             }
-        }).then(() => {
-            setClassifier(model);
-            console.log("Model trained successfully");
-        }).catch(error => {
-            console.error("Error during training:", error);
-            });
-        } else {
-        console.log("No recorded gestures to train on.");
         }
     };
 
-    const recognizeGesture = (landmarks: any) => {
-        if (classifier) {
-            const features = extractFeatures(frameBuffer); // Use extractFeatures here
-            
-            console.log(features);
-            //const features = extractGestureFeatures(landmarks[0]).flat(); (deprecated)
-            //landmarks.map((point: any) => [point.x, point.y, point.z]).flat();
-            const input = tf.tensor2d([features]);
-            classifier.predict(input).array().then((predictions: any) => {
-               // console.log("Gesture recognized:", predictions);
-                //q: explain the following code in comment below
-                // A: The model returns an array of probabilities for each class label.
-                if (predictions.length > 0) {
-                    //const predictedLabelIndex = predictions.indexOf(Math.max(...predictions));// Get the index of the highest probability
-                    //console.log("Predicted Gesture Index:", predictedLabelIndex);// Log the predicted label index 
-                }
-                // Implement sound playback based on the recognized gesture
-            });
-        } else {
-            console.log("Classifier not available.");
-        }
-    };
+    const classCounts = countSamplesPerClass(recordedGestures);
 
     return (
         <>
@@ -532,13 +435,26 @@ const GestureComponent = (props: GestureComponentProps) => {
                     zIndex: 2 
                 }}
             />
-            <label>Current Label: {gestureLabel}</label>   
-            <button onClick={() => {
-                console.log("Train Model button clicked");
-                trainModel();
-            }}style={{ backgroundColor: 'blue', color: 'white', padding: '10px', borderRadius: '5px', position: 'relative', zIndex: 2 }}
->  
-                Train Model</button>
+            <label>Current Label: {gestureLabel}</label>
+            <div className="classList">
+                {getClassLabels(recordedGestures).map((label) => (
+                    <span key={label} className={`classChip ${label == gestureLabel.trim() ? "currentTrack" : ""}`} onClick={() => selectClass(label)}>
+                        {label} ({classCounts.get(label)})
+                        <span className="classChipRemove" onClick={(event) => { event.stopPropagation(); removeClass(label); }}>×</span>
+                    </span>
+                ))}
+            </div>
+            <ControlBindingsPanel />
+            <CalibrationPanel session={calibrationSession} />
+            <GestureTracePanel recorder={traceRecorder} />
+            <TrainingPanel samples={recordedGestures} onTrained={updateClassifier} />
+            <CustomGestureBindingsPanel labels={classifier ? classifier.labels : []} />
+            {classifierError && <p style={{ margin: "4px 0 0 0" }}>{classifierError}</p>}
+            <GestureLibraryPanel
+                recordedGestures={recordedGestures}
+                classifier={classifier}
+                onDatasetLoaded={setRecordedGestures}
+                onClassifierLoaded={updateClassifier} />
         </>
     );
 };
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from "react";
+import gestureLibrary, { GestureDataset, isCompatibleDataset } from "../models/GestureLibrary";
+import { CustomGestureClassifier, GestureSample } from "../models/CustomGestureClassifier";
+
+interface GestureLibraryPanelProps {
+    recordedGestures: GestureSample[],
+    classifier: CustomGestureClassifier | null,
+    onDatasetLoaded: (samples: GestureSample[]) => void,
+    onClassifierLoaded: (classifier: CustomGestureClassifier | null) => void
+}
+
+/**
+ * Panel to save, reload, export, import and delete the custom gesture datasets and the trained classifiers
+ */
+const GestureLibraryPanel = (props: GestureLibraryPanelProps) => {
+    const { recordedGestures, classifier, onDatasetLoaded, onClassifierLoaded } = props;
+    const [name, setName] = useState<string>("");
+    const [datasets, setDatasets] = useState<GestureDataset[]>([]);
+    const [classifiers, setClassifiers] = useState<string[]>([]);
+    const [selectedDataset, setSelectedDataset] = useState<string>("");
+    const [selectedClassifier, setSelectedClassifier] = useState<string>(gestureLibrary.getSelectedClassifier() ?? "");
+    const [message, setMessage] = useState<string>("");
+
+    const refresh = () => {
+        gestureLibrary.listDatasets().then(setDatasets).catch((error) => console.error("Error listing datasets:", error));
+        gestureLibrary.listClassifiers().then(setClassifiers).catch((error) => console.error("Error listing classifiers:", error));
+    };
+
+    useEffect(refresh, []);
+
+    // Run a library operation, then refresh the lists and report how it went
+    const run = (operation: Promise<any>, success: string) => {
+        operation.then(() => {
+            setMessage(success);
+            refresh();
+        }).catch((error) => {
+            console.error(error);
+            setMessage("❌ " + error.message);
+        });
+    };
+
+    const saveDataset = () => {
+        if (name && recordedGestures.length > 0) {
+            run(gestureLibrary.saveDataset(name, recordedGestures), "Dataset saved ✅");
+        }
+    };
+
+    const loadDataset = () => {
+        run(gestureLibrary.loadTrainingDataset(selectedDataset).then((dataset) => {
+            if (dataset) {
+                onDatasetLoaded(dataset.samples);
+            }
+        }), "Dataset loaded ✅");
+    };
+
+    const importDataset = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (file) {
+            run(gestureLibrary.importDataset(file), "Dataset imported ✅");
+        }
+        event.target.value = "";
+    };
+
+    const saveClassifier = () => {
+        if (name && classifier) {
+            run(gestureLibrary.saveClassifier(name, classifier).then(() => {
+                gestureLibrary.setSelectedClassifier(name);
+                setSelectedClassifier(name);
+            }), "Classifier saved ✅");
+        }
+    };
+
+    const loadClassifier = () => {
+        run(gestureLibrary.loadClassifier(selectedClassifier).then((loadedClassifier) => {
+            gestureLibrary.setSelectedClassifier(selectedClassifier);
+            onClassifierLoaded(loadedClassifier);
+        }), "Classifier loaded ✅");
+    };
+
+    const deleteClassifier = () => {
+        run(gestureLibrary.deleteClassifier(selectedClassifier).then(() => {
+            onClassifierLoaded(null);
+            setSelectedClassifier("");
+        }), "Classifier deleted ✅");
+    };
+
+    const importClassifier = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        if (name && files.length > 0) {
+            run(gestureLibrary.importClassifier(name, files), "Classifier imported ✅");
+        } else {
+            setMessage("Type a name before importing a classifier");
+        }
+        event.target.value = "";
+    };
+
+    return (
+        <div className="controlPanel">
+            <strong>Gesture library 💾</strong>
+            <input type="text" value={name} onChange={(event) => setName(event.target.value)} placeholder="Name" style={{ marginLeft: "8px", width: "100px" }} />
+            <div className="panelRow">
+                <span className="panelLabel">Datasets</span>
+                <button className="panelButton" onClick={saveDataset} disabled={!name || recordedGestures.length == 0}>Save ({recordedGestures.length})</button>
+                <select value={selectedDataset} onChange={(event) => setSelectedDataset(event.target.value)} style={{ marginLeft: "8px" }}>
+                    <option value="">-</option>
+                    {datasets.map((dataset) => (
+                        <option key={dataset.id} value={dataset.id}>
+                            {dataset.id} ({dataset.samples.length}){!isCompatibleDataset(dataset) && " ⚠️ old format"}
+                        </option>
+                    ))}
+                </select>
+                <button className="panelButton" onClick={loadDataset} disabled={!selectedDataset}>Load</button>
+                <button className="panelButton" onClick={() => run(gestureLibrary.exportDataset(selectedDataset), "Dataset exported ✅")} disabled={!selectedDataset}>Export</button>
+                <button className="panelButton" onClick={() => run(gestureLibrary.deleteDataset(selectedDataset), "Dataset deleted ✅")} disabled={!selectedDataset}>Delete</button>
+                <label className="panelButton">
+                    Import
+                    <input type="file" accept=".json" onChange={importDataset} style={{ display: "none" }} />
+                </label>
+            </div>
+            <div className="panelRow">
+                <span className="panelLabel">Classifiers</span>
+                <button className="panelButton" onClick={saveClassifier} disabled={!name || !classifier}>Save</button>
+                <select value={selectedClassifier} onChange={(event) => setSelectedClassifier(event.target.value)} style={{ marginLeft: "8px" }}>
+                    <option value="">-</option>
+                    {classifiers.map((classifierName) => <option key={classifierName} value={classifierName}>{classifierName}</option>)}
+                </select>
+                <button className="panelButton" onClick={loadClassifier} disabled={!selectedClassifier}>Load</button>
+                <button className="panelButton" onClick={() => run(gestureLibrary.exportClassifier(selectedClassifier), "Classifier exported ✅")} disabled={!selectedClassifier}>Export</button>
+                <button className="panelButton" onClick={deleteClassifier} disabled={!selectedClassifier}>Delete</button>
+                <label className="panelButton">
+                    Import
+                    <input type="file" accept=".json,.bin" multiple onChange={importClassifier} style={{ display: "none" }} />
+                </label>
+            </div>
+            {message && <p style={{ margin: "4px 0 0 0" }}>{message}</p>}
+        </div>
+    );
+};
+
+export default GestureLibraryPanel;
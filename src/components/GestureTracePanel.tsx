@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from "react";
+import { GestureTrace, GestureTraceRecorder, parseTrace } from "../recording/GestureTrace";
+import { ReplayAction, replayTrace } from "../recording/GestureReplay";
+import { downloadBlob } from "../utils/helpers";
+
+interface GestureTracePanelProps {
+    recorder: GestureTraceRecorder
+}
+
+const downloadJson = (data: any, fileName: string) => {
+    downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }), fileName);
+};
+
+/**
+ * Panel to record the webcam gestures as a trace file, and to replay a trace file into the gesture model to get
+ * the actions it triggers, e.g. to reproduce a bug report
+ */
+const GestureTracePanel = (props: GestureTracePanelProps) => {
+    const { recorder } = props;
+    const [, setRevision] = useState<number>(0);
+    const [trace, setTrace] = useState<GestureTrace | null>(null);
+    const [replayedActions, setReplayedActions] = useState<ReplayAction[] | null>(null);
+    const [message, setMessage] = useState<string>("");
+
+    useEffect(() => {
+        const listener = () => setRevision((revision) => revision + 1);
+        recorder.addListener(listener);
+        return () => recorder.removeListener(listener);
+    }, [recorder]);
+
+    const toggleRecording = () => {
+        if (recorder.isRecording()) {
+            const recordedTrace = recorder.stop();
+            setTrace(recordedTrace);
+            setMessage(recordedTrace.frames.length + " frames recorded");
+        } else {
+            recorder.start();
+            setMessage("");
+        }
+    };
+
+    const replay = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = "";
+        if (!file) {
+            return;
+        }
+        file.text().then((text) => {
+            const actions = replayTrace(parseTrace(text), { includeStatus: true });
+            setReplayedActions(actions);
+            setMessage(file.name + ": " + actions.length + " actions");
+        }).catch((error) => {
+            console.error("Error replaying the trace:", error);
+            setMessage("❌ " + error.message);
+        });
+    };
+
+    const fileName = () => "tune-crafter-gestures-" + new Date().toISOString().replace(/[:.]/g, "-");
+
+    return (
+        <div className="controlPanel">
+            <strong>Gesture trace 🎞️</strong>
+            <button className={`panelButton ${recorder.isRecording() ? "panelButtonActive" : ""}`} onClick={toggleRecording}>
+                {recorder.isRecording() ? "Stop" : "Record"}
+            </button>
+            {trace && <button className="panelButton" onClick={() => downloadJson(trace, fileName() + ".json")}>Download trace</button>}
+            <label className="panelButton">
+                Replay trace
+                <input type="file" accept="application/json" style={{ display: "none" }} onChange={replay} />
+            </label>
+            {replayedActions && <button className="panelButton" onClick={() => downloadJson(replayedActions, fileName() + "-actions.json")}>Download actions</button>}
+            {message && <span style={{ marginLeft: "8px" }}>{message}</span>}
+        </div>
+    );
+};
+
+export default GestureTracePanel;
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from "react";
+import { InputController, LearnSource } from "../input/InputController";
+import { INPUT_ACTIONS, InputAction, describeInputAction, describeMidiMapping, isContinuous } from "../input/InputBindings";
+
+interface InputPanelProps {
+    controller: InputController
+}
+
+const MIDI_STATUS_TEXT = {
+    unsupported: "Web MIDI not supported by this browser",
+    disconnected: "No MIDI controller",
+    connected: "MIDI",
+    denied: "MIDI access denied",
+};
+
+/**
+ * Panel with the keyboard shortcuts and the MIDI mappings of every action, each can be learned from the next key
+ * or MIDI message
+ */
+const InputPanel = (props: InputPanelProps) => {
+    const { controller } = props;
+    const [, setRevision] = useState<number>(0);
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+
+    useEffect(() => {
+        const listener = () => setRevision((revision) => revision + 1);
+        controller.addListener(listener);
+        return () => controller.removeListener(listener);
+    }, [controller]);
+
+    const bindings = controller.getBindings();
+    const learnTarget = controller.getLearnTarget();
+    const midiStatus = controller.getMidiStatus();
+
+    const isLearning = (action: InputAction, source: LearnSource) => learnTarget?.action == action && learnTarget.source == source;
+
+    const learnButton = (action: InputAction, source: LearnSource, text: string) => (
+        <button className={`panelButton ${isLearning(action, source) ? "panelButtonActive" : ""}`}
+            onClick={(event) => {
+                // Without the focus, the key to learn does not click the button again
+                event.currentTarget.blur();
+                if (isLearning(action, source)) {
+                    controller.cancelLearn();
+                } else {
+                    controller.startLearn(action, source);
+                }
+            }}>
+            {isLearning(action, source) ? (source == "keyboard" ? "Press a key…" : "Move a control…") : text}
+        </button>
+    );
+
+    return (
+        <div className="controlPanel">
+            <div className="panelRow">
+                <strong>Keyboard & MIDI ⌨️🎹</strong>
+                <span style={{ marginLeft: "8px" }}>
+                    {MIDI_STATUS_TEXT[midiStatus]}{midiStatus == "connected" && ": " + controller.getMidiInputNames().join(", ")}
+                </span>
+                <button className="panelButton" onClick={() => setIsOpen(!isOpen)}>{isOpen ? "Hide" : "Edit"}</button>
+            </div>
+            {isOpen && <>
+                {INPUT_ACTIONS.map((action) => {
+                    const key = bindings.keyboard[action];
+                    const mapping = bindings.midi[action];
+                    return (
+                        <div key={action} className="panelRow">
+                            <span className="panelLabel" style={{ minWidth: "100px" }}>{describeInputAction(action)}</span>
+                            {isContinuous(action) ?
+                                <span style={{ marginLeft: "8px", minWidth: "90px" }}>—</span> :
+                                <span style={{ minWidth: "90px" }}>
+                                    {learnButton(action, "keyboard", key ?? "No key")}
+                                    {key && <span className="classChipRemove" onClick={() => controller.unbind(action, "keyboard")}>×</span>}
+                                </span>}
+                            {learnButton(action, "midi", mapping ? describeMidiMapping(mapping) : "No MIDI")}
+                            {mapping && <span className="classChipRemove" onClick={() => controller.unbind(action, "midi")}>×</span>}
+                        </div>
+                    );
+                })}
+                <div className="panelRow">
+                    <button className="panelButton" onClick={() => controller.resetBindings()}>Reset to defaults</button>
+                    {learnTarget?.source == "keyboard" && <span style={{ marginLeft: "8px" }}>Esc to cancel</span>}
+                </div>
+            </>}
+        </div>
+    );
+};
+
+export default InputPanel;
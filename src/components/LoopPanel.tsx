@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from "react";
+import { AudioManager } from "../AudioManager";
+import { IntentAdapter } from "../intents/IntentAdapter";
+import loopSettings, { MAX_CROSSFADE, QUANTIZE_DIVISIONS } from "../loop/LoopSettings";
+import { TempoResult } from "../tempo/TempoDetection";
+
+interface LoopPanelProps {
+    soundManager: AudioManager,
+    adapter: IntentAdapter
+}
+
+/**
+ * Panel with the grid the loop points snap to, the crossfade at the loop seam and the half/double loop length commands
+ */
+const LoopPanel = (props: LoopPanelProps) => {
+    const { soundManager, adapter } = props;
+    const [, setRevision] = useState<number>(0);
+    const [tempo, setTempo] = useState<TempoResult | null>(soundManager.getTempo());
+
+    useEffect(() => {
+        const listener = () => setRevision((revision) => revision + 1);
+        loopSettings.addListener(listener);
+        soundManager.addTempoListener(setTempo);
+        return () => {
+            loopSettings.removeListener(listener);
+            soundManager.removeTempoListener(setTempo);
+        };
+    }, [soundManager]);
+
+    const settings = loopSettings.get();
+
+    return (
+        <div className="controlPanel">
+            <div className="panelRow">
+                <strong>Loop 🔁</strong>
+                <span style={{ marginLeft: "8px" }}>{tempo ? tempo.bpm.toFixed(1) + " BPM" : "Detecting tempo…"}</span>
+                <button className="panelButton" onClick={() => adapter.apply({ type: "ScaleLoop", factor: 0.5 })}>½</button>
+                <button className="panelButton" onClick={() => adapter.apply({ type: "ScaleLoop", factor: 2 })}>×2</button>
+            </div>
+            <div className="panelRow">
+                <span className="panelLabel">Quantize</span>
+                <select value={settings.quantize} onChange={(event) => loopSettings.setQuantize(parseFloat(event.target.value))}>
+                    {QUANTIZE_DIVISIONS.map((division) => <option key={division.beats} value={division.beats}>{division.name}</option>)}
+                </select>
+                <label>
+                    Crossfade {Math.round(settings.crossfade * 1000)} ms
+                    <input type="range" min={0} max={MAX_CROSSFADE} step={0.005} value={settings.crossfade}
+                        onChange={(event) => loopSettings.setCrossfade(parseFloat(event.target.value))} />
+                </label>
+            </div>
+        </div>
+    );
+};
+
+export default LoopPanel;
@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from "react";
+import { AudioManager } from "../AudioManager";
+import { ChannelId, MIXER_CHANNELS, describeChannel } from "../mixer/Mixer";
+
+interface MixerPanelProps {
+    soundManager: AudioManager
+}
+
+/**
+ * Panel with a strip for the track, every drum pad and the master: gain, pan, mute, solo and level meter.
+ * The 👆 button picks the channel the volume gesture controls
+ */
+const MixerPanel = (props: MixerPanelProps) => {
+    const mixer = props.soundManager.getMixer();
+    const [, setRevision] = useState<number>(0);
+    const [levels, setLevels] = useState<number[]>(MIXER_CHANNELS.map(() => 0));
+
+    useEffect(() => {
+        const listener = () => setRevision((revision) => revision + 1);
+        mixer?.addListener(listener);
+        return () => mixer?.removeListener(listener);
+    }, [mixer]);
+
+    useEffect(() => {
+        if (!mixer) {
+            return;
+        }
+        let frame: number;
+        const updateLevels = () => {
+            setLevels(MIXER_CHANNELS.map((id) => mixer.getChannel(id).getLevel()));
+            frame = requestAnimationFrame(updateLevels);
+        };
+        frame = requestAnimationFrame(updateLevels);
+        return () => cancelAnimationFrame(frame);
+    }, [mixer]);
+
+    if (!mixer) {
+        return null;
+    }
+
+    const strip = (id: ChannelId, index: number) => {
+        const channel = mixer.getChannel(id);
+        return (
+            <div key={id} className="panelRow">
+                <span className="panelLabel">{describeChannel(id)}</span>
+                <label>
+                    Gain
+                    <input type="range" min={0} max={1} step={0.01} value={channel.getGain()} onChange={(event) => mixer.setGain(id, parseFloat(event.target.value))} />
+                </label>
+                <label>
+                    Pan
+                    <input type="range" min={-1} max={1} step={0.01} value={channel.getPan()} onChange={(event) => mixer.setPan(id, parseFloat(event.target.value))} />
+                </label>
+                <button className={`panelButton ${channel.isMuted() ? "panelButtonActive" : ""}`} onClick={() => mixer.setMuted(id, !channel.isMuted())}>M</button>
+                {id != "master" &&
+                    <button className={`panelButton ${channel.isSoloed() ? "panelButtonActive" : ""}`} onClick={() => mixer.setSoloed(id, !channel.isSoloed())}>S</button>}
+                <button className={`panelButton ${mixer.getVolumeTarget() == id ? "panelButtonActive" : ""}`} title="Volume gesture" onClick={() => mixer.setVolumeTarget(id)}>👆</button>
+                <div className="meter">
+                    <div className="meterLevel" style={{ width: (levels[index] * 100) + "%" }}></div>
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className="controlPanel">
+            <strong>Mixer 🎚️</strong>
+            {MIXER_CHANNELS.map(strip)}
+        </div>
+    );
+};
+
+export default MixerPanel;
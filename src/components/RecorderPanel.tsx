@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from "react";
+import ReactGA from 'react-ga4';
+import { SessionRecorder } from "../recording/SessionRecorder";
+import { StepSequencer } from "../sequencer/StepSequencer";
+import { downloadBlob } from "../utils/helpers";
+
+interface RecorderPanelProps {
+    recorder: SessionRecorder,
+    sequencer: StepSequencer
+}
+
+/**
+ * Panel to record a performance and download it as WAV (audio) and MIDI (drum hits)
+ */
+const RecorderPanel = (props: RecorderPanelProps) => {
+    const { recorder, sequencer } = props;
+    const [, setRevision] = useState<number>(0);
+    const [duration, setDuration] = useState<number>(0);
+
+    useEffect(() => {
+        const listener = () => setRevision((revision) => revision + 1);
+        recorder.addListener(listener);
+        return () => recorder.removeListener(listener);
+    }, [recorder]);
+
+    useEffect(() => {
+        const interval = setInterval(() => setDuration(recorder.getDuration()), 200);
+        return () => clearInterval(interval);
+    }, [recorder]);
+
+    const toggleRecording = () => {
+        if (recorder.isRecording()) {
+            recorder.stop();
+        } else {
+            ReactGA.event({ category: 'User Interaction', action: 'recorder', label: 'StartRecording' });
+            recorder.start().catch((error) => console.error("Error starting the recorder:", error));
+        }
+    };
+
+    const fileName = () => "tune-crafter-" + new Date().toISOString().replace(/[:.]/g, "-");
+
+    return (
+        <div className="controlPanel">
+            <strong>Recorder ⏺</strong>
+            <button className={`panelButton ${recorder.isRecording() ? "panelButtonActive" : ""}`} onClick={toggleRecording}>
+                {recorder.isRecording() ? "Stop" : "Record"}
+            </button>
+            <span style={{ marginLeft: "8px" }}>{duration.toFixed(1)}s</span>
+            {recorder.hasRecording() && (
+                <>
+                    <button className="panelButton" onClick={() => downloadBlob(recorder.exportWav(), fileName() + ".wav")}>WAV</button>
+                    <button className="panelButton" onClick={() => downloadBlob(recorder.exportMidi(sequencer.getBpm()), fileName() + ".mid")}>
+                        MIDI ({recorder.getHits().length} hits)
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default RecorderPanel;
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from "react";
+import { StepSequencer, MIN_BPM, MAX_BPM } from "../sequencer/StepSequencer";
+import { DRUM_PADS } from "../kits/SampleKit";
+
+interface SequencerPanelProps {
+    sequencer: StepSequencer
+}
+
+const BAR_OPTIONS = [1, 2, 4];
+const STEP_OPTIONS = [8, 16, 32];
+
+/**
+ * Grid of the step sequencer: one row per finger pad, every cell can be toggled with a click
+ */
+const SequencerPanel = (props: SequencerPanelProps) => {
+    const { sequencer } = props;
+    const [, setRevision] = useState<number>(0);
+    const [currentStep, setCurrentStep] = useState<number>(-1);
+
+    useEffect(() => {
+        const listener = () => setRevision((revision) => revision + 1);
+        sequencer.addListener(listener);
+        return () => sequencer.removeListener(listener);
+    }, [sequencer]);
+
+    // Follow the playhead with the display refresh rate, the audio itself is scheduled on the AudioContext clock
+    useEffect(() => {
+        let frame = 0;
+        const update = () => {
+            setCurrentStep(sequencer.getCurrentStep());
+            frame = requestAnimationFrame(update);
+        };
+        frame = requestAnimationFrame(update);
+        return () => cancelAnimationFrame(frame);
+    }, [sequencer]);
+
+    const steps = Array.from({ length: sequencer.getTotalSteps() }, (_, step) => step);
+
+    return (
+        <div className="controlPanel">
+            <strong>Sequencer 🥁</strong>
+            <button className="panelButton" onClick={() => sequencer.isPlaying() ? sequencer.stop() : sequencer.start()}>
+                {sequencer.isPlaying() ? "Stop" : "Play"}
+            </button>
+            <button className={`panelButton ${sequencer.isArmed() ? "panelButtonActive" : ""}`} onClick={() => sequencer.setArmed(!sequencer.isArmed())}>
+                ⏺ Rec
+            </button>
+            <button className="panelButton" onClick={() => sequencer.clear()}>Clear</button>
+            <div className="panelRow">
+                <label>
+                    BPM
+                    <input type="number" min={MIN_BPM} max={MAX_BPM} value={sequencer.getBpm()} style={{ width: "50px", marginLeft: "4px" }}
+                        onChange={(event) => sequencer.setBpm(parseInt(event.target.value) || MIN_BPM)} />
+                </label>
+                <label>
+                    Bars
+                    <select value={sequencer.getBars()} onChange={(event) => sequencer.setBars(parseInt(event.target.value))} style={{ marginLeft: "4px" }}>
+                        {BAR_OPTIONS.map((bars) => <option key={bars} value={bars}>{bars}</option>)}
+                    </select>
+                </label>
+                <label>
+                    Steps/bar
+                    <select value={sequencer.getStepsPerBar()} onChange={(event) => sequencer.setStepsPerBar(parseInt(event.target.value))} style={{ marginLeft: "4px" }}>
+                        {STEP_OPTIONS.map((stepsPerBar) => <option key={stepsPerBar} value={stepsPerBar}>{stepsPerBar}</option>)}
+                    </select>
+                </label>
+            </div>
+            {DRUM_PADS.map((pad) => (
+                <div key={pad} className="panelRow">
+                    <span className="panelLabel">{pad}</span>
+                    <div className="sequencerRow">
+                        {steps.map((step) => (
+                            <div
+                                key={step}
+                                className={`sequencerCell ${sequencer.isStepActive(pad, step) ? "sequencerCellActive" : ""} ${step == currentStep ? "sequencerCellCurrent" : ""} ${step % sequencer.getStepsPerBar() == 0 ? "sequencerCellBar" : ""}`}
+                                style={sequencer.isStepActive(pad, step) ? { opacity: 0.3 + 0.7 * sequencer.getStepVelocity(pad, step) } : undefined}
+                                onClick={() => sequencer.toggleStep(pad, step)}>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default SequencerPanel;
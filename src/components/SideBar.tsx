@@ -1,17 +1,51 @@
 import React, { Component } from "react";
+import currentMode, { ModeChangeEvent } from "../CurrentMode";
+import kitRegistry from "../kits/KitRegistry";
+import controlBindings, { ControlAction, ControlBindingProfile, GestureName } from "../models/ControlBindings";
+
+const GESTURE_EMOJIS: Record<GestureName, string> = {
+    None: "🤚",
+    Closed_Fist: "✊",
+    Open_Palm: "🖐️",
+    Pointing_Up: "👆",
+    Thumb_Down: "👎",
+    Thumb_Up: "👍",
+    Victory: "✌️",
+    ILoveYou: "🤟",
+};
 
 class SideBar extends Component {
 
     state = {
         isCollapsed: window.innerWidth < 700,
+        mode: currentMode.getMode(),
+        profile: controlBindings.getActiveProfile(),
     }
 
     componentDidMount() {
         window.addEventListener("resize", this.handleResize);
+        currentMode.subscribe(this.handleModeChange);
+        controlBindings.addListener(this.handleProfileChange);
     }
 
     componentWillUnmount() {
         window.removeEventListener("resize", this.handleResize);
+        currentMode.unsubscribe(this.handleModeChange);
+        controlBindings.removeListener(this.handleProfileChange);
+    }
+
+    handleModeChange = (event: ModeChangeEvent) => {
+        this.setState({ mode: event.next });
+    };
+
+    handleProfileChange = (profile: ControlBindingProfile) => {
+        this.setState({ profile: profile });
+    };
+
+    // Hand and gesture entering an action in the active binding profile, e.g. "Right Hand 🖐️"
+    describeGesture(action: ControlAction) {
+        const binding = this.state.profile.bindings.find((b) => b.action == action);
+        return binding ? `${binding.hand} Hand ${GESTURE_EMOJIS[binding.gesture]}` : "(not bound)";
     }
 
     handleResize = () => {
@@ -59,33 +93,45 @@ class SideBar extends Component {
     }
 
     render() {
-        const { isCollapsed } = this.state;
+        const { isCollapsed, mode, profile } = this.state;
+        const kitName = kitRegistry.get(mode)?.name ?? mode;
 
         return (
             <div className="sidebar" id="sideBar_1" style={isCollapsed ? { width: "40px" } : { width: "250px" }}>
                 <button className="closebtn" id="btnClose" onClick={this.toggleCollapse}>{isCollapsed ? "☰" : "×"}</button>
                 <div id="content" style={isCollapsed ? { display: "none" } : { display: "block" }}>
+                    <p>Current mode: <strong>{kitName}</strong></p>
                     <strong>Voice commands 🎙️</strong>
                     <ul style={{ paddingLeft: "15px" }}>
                         <li>🎙️ Start/Play</li>
                         <li>🎙️ Pause/Stop</li>
                         <li>🎙️ Repeat/Loop</li>
                         <li>🎙️ Next</li>
-                        <li><strong>🎙️ Christmas (MODE) 🎅🎄</strong></li>
-                        <li><strong>🎙️ Normal (MODE)</strong></li>
-                        <li><strong>🎙️ Piano (MODE) 🎹</strong></li>
+                        <li>🎙️ Volume 40 (percent)</li>
+                        <li>🎙️ Speed one point five</li>
+                        <li>🎙️ Go to 1:30</li>
+                        <li>🎙️ Track 3</li>
+                        <li>🎙️ Loop four bars / Clear loop</li>
+                        <li>🎙️ Play (track name) / Playlist (name)</li>
+                        {kitRegistry.getAll().map((modeKit) => (
+                            <li key={modeKit.id}>
+                                <strong>🎙️ {modeKit.id.charAt(0).toUpperCase() + modeKit.id.slice(1)} (MODE){modeKit.icon && " " + modeKit.icon}</strong>
+                                {mode == modeKit.id && " ✅"}
+                            </li>
+                        ))}
                     </ul>
                     <strong>Gestures 🙌</strong>
                     <br />
-                    <p>Use only 1 hand at the time</p>
+                    <p>Use only 1 hand at the time ({profile.name})</p>
                     <ul style={{ paddingLeft: "15px" }}>
-                        <li>Right Hand 🖐️ + ✊: Play/Pause</li>
-                        <li>Right Hand 👍 + Rotate: control speed</li>
-                        <li>Right Hand 👆 + ↔️: Volume control</li>
-                        <li>Left Hand 🖐️ + 👌 with every finger: play the drum</li>
-                        <li>Left Hand ✌️ + 🤞: Start a loop</li>
-                        <li>Right Hand ✌️ + 🤞: Close a loop</li>
-                        <li>Left Hand ✌️: To remove a loop</li>
+                        <li>{this.describeGesture("playPauseStart")} + {GESTURE_EMOJIS[profile.bindings.find((b) => b.action == "playPauseConfirm")?.gesture ?? "Closed_Fist"]}: Play/Pause</li>
+                        <li>{this.describeGesture("effectSelect")}: choose speed or an effect (filter, distortion, delay, reverb)</li>
+                        <li>{this.describeGesture("effects")} + Rotate: control the speed or the chosen effect</li>
+                        <li>{this.describeGesture("volume")} + ↔️: Volume control of the mixer channel picked with 👆</li>
+                        <li>{profile.drumHand} Hand 🖐️ + 👌 with every finger: play the {kitName.toLowerCase()} kit</li>
+                        <li>{this.describeGesture("loopStart")} + 🤞: Start a loop</li>
+                        <li>{this.describeGesture("loopEnd")} + 🤞: Close a loop</li>
+                        <li>{this.describeGesture("loopStart")}: To remove a loop</li>
                     </ul>
                 </div>
             </div>
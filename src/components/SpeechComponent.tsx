@@ -3,20 +3,38 @@ import ReactGA from 'react-ga4';
 import 'bootstrap/dist/css/bootstrap.css';
 import WaveSurfer from "wavesurfer.js";
 import { AudioManager } from "../AudioManager";
-import currentMode from "../CurrentMode";
+import kitRegistry from "../kits/KitRegistry";
+import { IntentAdapter } from "../intents/IntentAdapter";
+import playlistCatalog, { CatalogKind, MATCH_THRESHOLD } from "../library/PlaylistCatalog";
+import { SpeechResult } from "../speech/SpeechBackend";
+import speechService, { SpeechBackendPreference, SpeechStatus } from "../speech/SpeechService";
+import { parseVoiceCommand } from "../speech/VoiceCommands";
+
+const EXACT_MATCH_THRESHOLD = 0.9;
+const TALK_KEY = "KeyV";
+
+const STATUS_LABELS: Record<SpeechStatus, string> = {
+    idle: "⚪ Idle",
+    listening: "🔴 Listening",
+    error: "⚠️ Error",
+    unsupported: "🚫 Unsupported",
+};
 
 interface SpeechComponentProps {
     waveform: WaveSurfer | null,
-    soundManager: AudioManager
+    soundManager: AudioManager,
+    adapter: IntentAdapter
 }
 
 const SpeechComponent = (props: SpeechComponentProps) => {
     // Define a sensitivity value to control effect change speed
     var waveform = props.waveform;
     var soundManager = props.soundManager;
-    const recognition = new (window as any).webkitSpeechRecognition();
-    var currentWord = "";
-    var currentTime = 0;
+    var adapter = props.adapter;
+    const [status, setStatus] = useState<SpeechStatus>(speechService.getStatus());
+    const [pushToTalk, setPushToTalk] = useState<boolean>(speechService.isPushToTalk());
+    const [backendPreference, setBackendPreference] = useState<SpeechBackendPreference>(speechService.getBackendPreference());
+    const [modelDownload, setModelDownload] = useState<boolean>(speechService.isModelDownloadAllowed());
 
     let [currentSong, setCurrentSong] = useState(soundManager.getCurrentSongIndex());
 
@@ -27,144 +45,210 @@ const SpeechComponent = (props: SpeechComponentProps) => {
         currentSongName.innerHTML = "🟣 Now Playing: " + soundManager.getCurrentSongName();
     });
 
+    /**
+     * Function to play the track or the playlist of the catalog named in a voice command, "play" tries the tracks first
+     */
+    const playFromCatalog = (query: string, kind: CatalogKind | undefined, threshold: number, current_voice: HTMLOutputElement) => {
+        const search = kind ? playlistCatalog.find(query, kind, threshold)
+            : playlistCatalog.find(query, "track", threshold).then((match) => match ?? playlistCatalog.find(query, "playlist", threshold));
+        search.then((match) => {
+            if (!match) {
+                return;
+            }
+            ReactGA.event({
+                category: 'User Interaction',
+                action: 'speech',
+                label: match.kind == "playlist" ? match.playlist.name : match.alias,
+            });
+            soundManager.playPlaylist(match.playlist, match.songIndex);
+            current_voice.innerText = "🎙️ " + (match.kind == "playlist" ? "Playlist " + match.playlist.name : match.alias) + " 🎵 ✅";
+        }).catch((error) => console.error("Error searching the catalog:", error));
+    };
+
     /**
      * This 'useEffect' handles voice recognition for controlling audio playback and updates the UI based on recognized voice commands.
+     * The speech service owns the recognizer, it keeps it running while the component is mounted
      */
     useEffect(() => {
-        if ('webkitSpeechRecognition' in window && waveform != undefined) {
-            recognition.continuous = true; // Continuously listen for commands
-            recognition.interimResults = true;
-            recognition.onresult = (event: any) => {
-                const current = event.resultIndex;
-                //String resulting from the model
-                const transcript = event.results[current][0].transcript.trim();
-                if (currentWord != transcript) {
-                    currentWord = transcript;
-                } else {
-                    if (new Date().getTime() - currentTime <= 2000) {
-                        return;
+        if (waveform == undefined) {
+            return;
+        }
+        let currentWord = "";
+        let currentTime = 0;
+        const onTranscript = (result: SpeechResult) => {
+            let current_voice = document.getElementById('current_voice') as HTMLOutputElement;
+            current_voice.innerText = "🎙️ " + result.transcript;
+            // Only the final transcript runs a command: "loop" may still become "loop four bars", "volume 4" "volume 40"
+            if (!result.isFinal) {
+                return;
+            }
+            if (currentWord != result.transcript) {
+                currentWord = result.transcript;
+            } else {
+                if (new Date().getTime() - currentTime <= 2000) {
+                    return;
+                }
+            }
+            currentTime = new Date().getTime();
+            const command = parseVoiceCommand(currentWord, kitRegistry.getAll().map((kit) => kit.id));
+            switch (command?.type) {
+                case "Play":
+                    console.warn("play");
+                    if (!waveform?.isPlaying()) {
+                        waveform?.playPause();
+                        current_voice.innerText = "🎙️ Play ▶️ ✅";
+                    }
+                    break;
+                case "Pause":
+                    console.warn("stop");
+                    ReactGA.event({
+                        category: 'User Interaction',
+                        action: 'speech',
+                        label: 'Stop/Pause',
+                    });
+                    if (waveform?.isPlaying()) {
+                        waveform?.playPause();
+                        current_voice.innerText = "🎙️ Pause ⏹️ ✅";
+                    }
+                    break;
+                case "Restart":
+                    console.warn("loop");
+                    ReactGA.event({
+                        category: 'User Interaction',
+                        action: 'speech',
+                        label: 'Repeat/Loop',
+                    });
+                    waveform?.setCurrentTime(0);
+                    current_voice.innerText = "🎙️ Playback 🔁 ✅";
+                    break;
+                case "Next":
+                    ReactGA.event({
+                        category: 'User Interaction',
+                        action: 'speech',
+                        label: 'Next',
+                    });
+                    console.warn("next");
+                    soundManager.nextSong();
+                    soundManager.newTrack();
+                    break;
+                case "Reset":
+                    console.warn("reset");
+                    soundManager.switchMode("normal");
+                    break;
+                case "SetVolume":
+                    adapter.apply({ type: "SetVolume", volume: command.volume });
+                    current_voice.innerText = "🎙️ Volume " + Math.round(command.volume * 100) + "% 🔊 ✅";
+                    break;
+                case "SetSpeed":
+                    adapter.apply({ type: "SetRate", rate: command.rate });
+                    current_voice.innerText = "🎙️ Speed x" + command.rate + " ⏩ ✅";
+                    break;
+                case "Seek": {
+                    const duration = waveform?.getDuration() ?? 0;
+                    if (command.time <= duration) {
+                        waveform?.setCurrentTime(command.time);
+                        current_voice.innerText = "🎙️ Go to " + Math.floor(command.time / 60) + ":" + Math.floor(command.time % 60).toString().padStart(2, "0") + " ✅";
                     }
+                    break;
                 }
-                currentTime = new Date().getTime();
-                let current_voice = document.getElementById('current_voice') as HTMLOutputElement;
-                current_voice.innerText = "🎙️ " + currentWord;
-                switch (currentWord.toLowerCase().trim()) {
-                    case 'start':
-                    case 'play':
-                        console.warn("play");
-                        if (!waveform?.isPlaying()) {
-                            waveform?.playPause();
-                            current_voice.innerText = "🎙️ Play ▶️ ✅";
-                        }
-                        break;
-                    case 'pause':
-                    case 'stop':
-                        console.warn("stop");
-                        ReactGA.event({
-                            category: 'User Interaction',
-                            action: 'speech',
-                            label: 'Stop/Pause',
-                        });
-                        if (waveform?.isPlaying()) {
-                            waveform?.playPause();
-                            current_voice.innerText = "🎙️ Pause ⏹️ ✅";
-                        }
-                        break;
-                    case 'repeat':
-                    case 'loop':
-                        console.warn("loop");
-                        ReactGA.event({
-                            category: 'User Interaction',
-                            action: 'speech',
-                            label: 'Repeat/Loop',
-                        });
-                        waveform?.setCurrentTime(0);
-                        current_voice.innerText = "🎙️ Playback 🔁 ✅";
-                        break;
-                    case 'next':
-                        ReactGA.event({
-                            category: 'User Interaction',
-                            action: 'speech',
-                            label: 'Next',
-                        });
-                        console.warn("next");
-                        soundManager.nextSong();
+                case "SelectTrack":
+                    if (command.track <= soundManager.getSongs().length) {
+                        soundManager.setCurrentSongIndex(command.track - 1);
                         soundManager.newTrack();
-                        break;
-                    case "emilio":
-                        ReactGA.event({
-                            category: 'User Interaction',
-                            action: 'speech',
-                            label: 'Emilio',
-                        });
-                        console.warn("emilio");
-                        soundManager.setEmilioSong();
-                        soundManager.newTrack();
-                        break;
-                    case "laura":
-                        ReactGA.event({
-                            category: 'User Interaction',
-                            action: 'speech',
-                            label: 'Laura',
-                        });
-                        console.warn("laura");
-                        soundManager.setLauraSong();
-                        soundManager.newTrack();
-                        break;
-                    case "nina":
-                        ReactGA.event({
-                            category: 'User Interaction',
-                            action: 'speech',
-                            label: 'Nina',
-                        });
-                        console.warn("nina");
-                        soundManager.setNinaSong();
-                        soundManager.newTrack();
-                        break;
-                    case "christmas":
-                        console.warn("christmas");
-                        ReactGA.event({
-                            category: 'User Interaction',
-                            action: 'speech',
-                            label: 'Christmas',
-                        });
-                        soundManager.setChristmasSong();
-                        soundManager.newTrack();
-                        currentMode.mode = "christmas";
-                        break;
-                    case "piano":
-                        console.warn("piano");
+                        current_voice.innerText = "🎙️ Track " + command.track + " 🎵 ✅";
+                    }
+                    break;
+                case "SetLoop":
+                    adapter.apply({ type: "SetLoopLength", beats: command.beats });
+                    current_voice.innerText = "🎙️ Loop " + command.beats + " beats 🔁 ✅";
+                    break;
+                case "ClearLoop":
+                    adapter.apply({ type: "ClearLoop" });
+                    current_voice.innerText = "🎙️ Loop cleared ✅";
+                    break;
+                case "SelectKit": {
+                    // Every mode can be selected by saying its name, the kit comes with it
+                    const kit = kitRegistry.get(command.kit);
+                    if (kit) {
+                        console.warn(kit.id);
                         ReactGA.event({
                             category: 'User Interaction',
                             action: 'speech',
-                            label: 'Piano',
+                            label: kit.name,
                         });
-                        soundManager.setPianoSong();
-                        soundManager.newTrack();
-                        currentMode.mode = "piano";
-                        break;
-                    case "normal":
-                    case "reset":
-                        console.warn("reset");
-                        soundManager.setNormalSongs();
-                        soundManager.newTrack();
-                        currentMode.mode = "normal";
-                        break;
+                        soundManager.switchMode(kit.id);
+                    }
+                    break;
                 }
-            };
-            recognition.onstart = () => {
-                console.log("Voice recognition started");
-            };
-            recognition.start();
-        }
+                case "PlayNamed":
+                    // A bare name has to be (nearly) one of the aliases, any transcript would match something otherwise
+                    playFromCatalog(command.query, command.kind, command.exact ? EXACT_MATCH_THRESHOLD : MATCH_THRESHOLD, current_voice);
+                    break;
+            }
+        };
+        speechService.addTranscriptListener(onTranscript);
+        speechService.start();
+        return () => {
+            speechService.removeTranscriptListener(onTranscript);
+            speechService.stop();
+        };
+    }, [waveform, soundManager, adapter]);
 
-    });
+    // Push to talk: the recognizer listens while V or the talk button is held
+    useEffect(() => {
+        const onStatusChange = () => {
+            setStatus(speechService.getStatus());
+            setPushToTalk(speechService.isPushToTalk());
+            setBackendPreference(speechService.getBackendPreference());
+            setModelDownload(speechService.isModelDownloadAllowed());
+        };
+        const isTalkKey = (event: KeyboardEvent) => event.code == TALK_KEY && !(event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement);
+        const onKeyDown = (event: KeyboardEvent) => {
+            if (isTalkKey(event) && !event.repeat) {
+                speechService.setTalking(true);
+            }
+        };
+        const onKeyUp = (event: KeyboardEvent) => {
+            if (isTalkKey(event)) {
+                speechService.setTalking(false);
+            }
+        };
+        speechService.addListener(onStatusChange);
+        window.addEventListener("keydown", onKeyDown);
+        window.addEventListener("keyup", onKeyUp);
+        return () => {
+            speechService.removeListener(onStatusChange);
+            window.removeEventListener("keydown", onKeyDown);
+            window.removeEventListener("keyup", onKeyUp);
+        };
+    }, []);
 
     return (
         <>
             <div style={{ marginTop: "20px" }}>
                 <p id='current_voice' className="currGesture">🎙️</p>
-                <p className="tooltipGesture">Voice commands</p>
+                <p className="tooltipGesture">
+                    Voice commands
+                    <span className={"speechBadge speechBadge-" + status} title={speechService.getError() || speechService.getBackend()?.name}
+                        onClick={() => status == "error" && speechService.start()}>{STATUS_LABELS[status]}</span>
+                </p>
+                <p className="tooltipGesture">
+                    <select value={backendPreference} onChange={(event) => speechService.setBackendPreference(event.target.value as SpeechBackendPreference)}>
+                        <option value="auto">Auto</option>
+                        {speechService.getBackends().map((backend) =>
+                            <option key={backend.id} value={backend.id} disabled={!backend.isSupported()}>{backend.name}</option>)}
+                    </select>
+                    <label style={{ marginLeft: "8px" }}>
+                        <input type="checkbox" checked={pushToTalk} onChange={(event) => speechService.setPushToTalk(event.target.checked)} /> Push to talk
+                    </label>
+                    {speechService.getBackend()?.offline &&
+                        <label style={{ marginLeft: "8px" }} title="The keyword model is downloaded from Google once, then it is kept in the browser">
+                            <input type="checkbox" checked={modelDownload} onChange={(event) => speechService.setModelDownloadAllowed(event.target.checked)} /> Download the keyword model
+                        </label>}
+                    {pushToTalk &&
+                        <button className="panelButton" onPointerDown={() => speechService.setTalking(true)} onPointerUp={() => speechService.setTalking(false)}
+                            onPointerLeave={() => speechService.setTalking(false)}>Hold to talk (V)</button>}
+                </p>
             </div>
         </>
     );
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from "react";
+import { AudioManager } from "../AudioManager";
+import currentMode from "../CurrentMode";
+import { BUNDLED_PLAYLIST } from "../library/bundledPlaylists";
+import trackLibrary, { Playlist, USER_TRACKS_PLAYLIST, UserTrack } from "../library/TrackLibrary";
+
+interface TrackLibraryPanelProps {
+    soundManager: AudioManager
+}
+
+function formatDuration(seconds: number) {
+    const minutes = Math.floor(seconds / 60);
+    return minutes + ":" + Math.floor(seconds % 60).toString().padStart(2, "0");
+}
+
+// "ella, ella baila" → ["ella", "ella baila"]
+function parseAliases(text: string) {
+    return text.split(",").map((alias) => alias.trim()).filter((alias) => alias);
+}
+
+/**
+ * Panel with the tracks the user added (dropped on the waveform or picked here) and their playlists.
+ * The checked tracks are saved as a named playlist, any playlist can be played on the waveform
+ */
+const TrackLibraryPanel = (props: TrackLibraryPanelProps) => {
+    const { soundManager } = props;
+    const [tracks, setTracks] = useState<UserTrack[]>([]);
+    const [playlists, setPlaylists] = useState<Playlist[]>([]);
+    const [checked, setChecked] = useState<string[]>([]);
+    const [name, setName] = useState<string>("");
+    const [playlistName, setPlaylistName] = useState<string>(soundManager.getPlaylistName());
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+    const [message, setMessage] = useState<string>("");
+
+    useEffect(() => {
+        const refresh = () => {
+            trackLibrary.listTracks().then(setTracks).catch((error) => console.error("Error listing tracks:", error));
+            trackLibrary.listPlaylists().then(setPlaylists).catch((error) => console.error("Error listing playlists:", error));
+        };
+        const onSongsChange = () => setPlaylistName(soundManager.getPlaylistName());
+        refresh();
+        trackLibrary.addListener(refresh);
+        soundManager.addListener(onSongsChange);
+        return () => {
+            trackLibrary.removeListener(refresh);
+            soundManager.removeListener(onSongsChange);
+        };
+    }, [soundManager]);
+
+    // Run a library operation and report how it went
+    const run = (operation: Promise<any>, success: string) => {
+        operation.then(() => setMessage(success)).catch((error) => {
+            console.error(error);
+            setMessage("❌ " + error.message);
+        });
+    };
+
+    const addFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        event.target.value = "";
+        if (files.length > 0) {
+            setMessage("Adding tracks…");
+            soundManager.addUserTracks(files).then((failed) => {
+                setMessage(failed.length == 0 ? "Tracks added ✅" : "❌ Not added: " + failed.map((file) => file.name).join(", "));
+            });
+        }
+    };
+
+    const play = async (playlist: string) => {
+        if (playlist == BUNDLED_PLAYLIST.name) {
+            soundManager.setKitSongs(currentMode.getMode());
+        } else {
+            const trackIds = playlist == USER_TRACKS_PLAYLIST ? undefined : playlists.find((p) => p.id == playlist)?.trackIds;
+            let songs;
+            try {
+                songs = await trackLibrary.getSongs(trackIds);
+            } catch (error: any) {
+                console.error(error);
+                setMessage("❌ " + error.message);
+                return;
+            }
+            if (songs.length == 0) {
+                setMessage("❌ " + playlist + " has no tracks");
+                return;
+            }
+            soundManager.setPlaylist(playlist, songs);
+        }
+        soundManager.newTrack();
+    };
+
+    const toggleTrack = (id: string) => {
+        setChecked(checked.includes(id) ? checked.filter((t) => t != id) : [...checked, id]);
+    };
+
+    const savePlaylist = () => {
+        const playlist = name.trim();
+        if (playlist && playlist != USER_TRACKS_PLAYLIST && playlist != BUNDLED_PLAYLIST.name && checked.length > 0) {
+            run(trackLibrary.savePlaylist(playlist, checked), "Playlist saved ✅");
+            setName("");
+        }
+    };
+
+    // The hidden playlists are only reachable by voice, the panel does not name them
+    const isHidden = soundManager.isPlaylistHidden();
+
+    return (
+        <div className="controlPanel">
+            <div className="panelRow">
+                <strong>My tracks 🎵</strong>
+                <select value={isHidden ? "" : playlistName} style={{ marginLeft: "8px" }} onChange={(event) => play(event.target.value)}>
+                    {isHidden && <option value="" disabled>-</option>}
+                    {!isHidden && !playlists.some((p) => p.id == playlistName) && ![BUNDLED_PLAYLIST.name, USER_TRACKS_PLAYLIST].includes(playlistName) &&
+                        <option value={playlistName}>{playlistName}</option>}
+                    <option value={BUNDLED_PLAYLIST.name}>{BUNDLED_PLAYLIST.name}</option>
+                    {tracks.length > 0 && <option value={USER_TRACKS_PLAYLIST}>{USER_TRACKS_PLAYLIST}</option>}
+                    {playlists.map((playlist) => <option key={playlist.id} value={playlist.id}>{playlist.id} ({playlist.trackIds.length})</option>)}
+                </select>
+                {playlists.some((p) => p.id == playlistName) && <>
+                    <input key={playlistName} type="text" defaultValue={(playlists.find((p) => p.id == playlistName)?.aliases ?? []).join(", ")}
+                        placeholder="Voice names" style={{ marginLeft: "8px" }}
+                        onBlur={(event) => run(trackLibrary.setPlaylistAliases(playlistName, parseAliases(event.target.value)), "Voice names saved ✅")} />
+                    <button className="panelButton" onClick={() => run(trackLibrary.deletePlaylist(playlistName), "Playlist deleted ✅")}>Delete playlist</button>
+                </>}
+                <button className="panelButton" onClick={() => setIsOpen(!isOpen)}>{isOpen ? "Hide" : "Tracks"}</button>
+            </div>
+            {isOpen && <>
+                {tracks.map((track) => (
+                    <div key={track.id} className="panelRow">
+                        <input type="checkbox" checked={checked.includes(track.id)} onChange={() => toggleTrack(track.id)} />
+                        <span className="panelLabel" style={{ marginLeft: "4px" }}>{track.title}</span>
+                        <span style={{ marginLeft: "8px" }}>{formatDuration(track.duration)}</span>
+                        <span style={{ marginLeft: "8px" }}>{track.bpm ? track.bpm.toFixed(0) + " BPM" : "-"}</span>
+                        <input type="text" defaultValue={(track.aliases ?? []).join(", ")} placeholder="Voice names" style={{ marginLeft: "8px" }}
+                            onBlur={(event) => run(trackLibrary.setTrackAliases(track.id, parseAliases(event.target.value)), "Voice names saved ✅")} />
+                        <button className="panelButton" onClick={() => run(trackLibrary.deleteTrack(track.id), "Track deleted ✅")}>×</button>
+                    </div>
+                ))}
+                {tracks.length == 0 && <div className="panelRow">Drop audio files on the waveform or add them here</div>}
+                <div className="panelRow">
+                    <label className="panelButton">
+                        Add files
+                        <input type="file" accept="audio/*" multiple style={{ display: "none" }} onChange={addFiles} />
+                    </label>
+                    <input type="text" value={name} placeholder="Playlist name" style={{ marginLeft: "8px" }} onChange={(event) => setName(event.target.value)} />
+                    <button className="panelButton" onClick={savePlaylist} disabled={!name.trim() || checked.length == 0}>
+                        Save {checked.length} tracks as playlist
+                    </button>
+                </div>
+            </>}
+            {message && <div className="panelRow">{message}</div>}
+        </div>
+    );
+};
+
+export default TrackLibraryPanel;
@@ -0,0 +1,167 @@
+import React, { useState } from "react";
+import { CustomGestureClassifier, DEFAULT_TRAINING_OPTIONS, EpochLogs, Evaluation, GestureSample } from "../models/CustomGestureClassifier";
+
+interface TrainingPanelProps {
+    samples: GestureSample[],
+    onTrained: (classifier: CustomGestureClassifier) => void
+}
+
+interface Series {
+    name: string;
+    color: string;
+    values: (number | undefined)[];
+}
+
+const CHART_WIDTH = 220;
+const CHART_HEIGHT = 70;
+
+/**
+ * Small SVG line chart of the per-epoch values, scaled on the highest value of all the series
+ */
+const EpochChart = (props: { title: string, series: Series[] }) => {
+    const values = props.series.flatMap((serie) => serie.values).filter((value): value is number => value !== undefined && isFinite(value));
+    const epochs = Math.max(...props.series.map((serie) => serie.values.length));
+    if (values.length == 0 || epochs < 2) {
+        return null;
+    }
+    const max = Math.max(...values, 1e-6);
+
+    const toPoints = (serie: Series) => serie.values
+        .map((value, epoch) => value === undefined ? null : `${(epoch / (epochs - 1)) * CHART_WIDTH},${CHART_HEIGHT - (value / max) * CHART_HEIGHT}`)
+        .filter((point) => point !== null)
+        .join(" ");
+
+    return (
+        <div style={{ marginRight: "10px" }}>
+            <div>
+                {props.title} {props.series.map((serie) => <span key={serie.name} style={{ color: serie.color, marginLeft: "6px" }}>— {serie.name}</span>)}
+            </div>
+            <svg width={CHART_WIDTH} height={CHART_HEIGHT} style={{ background: "#0000002e", borderRadius: "4px" }}>
+                {props.series.map((serie) => <polyline key={serie.name} points={toPoints(serie)} fill="none" stroke={serie.color} strokeWidth={1.5} />)}
+            </svg>
+        </div>
+    );
+};
+
+const percentage = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Panel to train the custom classifier with a validation holdout, showing the learning curves while it trains
+ * and the precision/recall and the confusion matrix of the validation samples at the end
+ */
+const TrainingPanel = (props: TrainingPanelProps) => {
+    const { samples, onTrained } = props;
+    const [epochs, setEpochs] = useState<number>(DEFAULT_TRAINING_OPTIONS.epochs);
+    const [validationSplit, setValidationSplit] = useState<number>(DEFAULT_TRAINING_OPTIONS.validationSplit);
+    const [earlyStopping, setEarlyStopping] = useState<boolean>(DEFAULT_TRAINING_OPTIONS.earlyStopping);
+    const [patience, setPatience] = useState<number>(DEFAULT_TRAINING_OPTIONS.patience);
+    const [isTraining, setIsTraining] = useState<boolean>(false);
+    const [history, setHistory] = useState<EpochLogs[]>([]);
+    const [evaluation, setEvaluation] = useState<Evaluation | null>(null);
+    const [labels, setLabels] = useState<string[]>([]);
+    const [message, setMessage] = useState<string>("");
+
+    const train = () => {
+        setIsTraining(true);
+        setHistory([]);
+        setEvaluation(null);
+        setMessage("Training...");
+        CustomGestureClassifier.train(samples, {
+            epochs: epochs,
+            validationSplit: validationSplit,
+            earlyStopping: earlyStopping,
+            patience: patience,
+            onEpochEnd: (logs) => setHistory((previous) => [...previous, logs]),
+        }).then((result) => {
+            setEvaluation(result.evaluation);
+            setLabels(result.classifier.labels);
+            onTrained(result.classifier);
+            const stoppedEarly = result.history.length < epochs ? ` (stopped early at epoch ${result.history.length})` : "";
+            setMessage("Model trained ✅" + stoppedEarly);
+            console.log("Model trained successfully, classes:", result.classifier.labels);
+        }).catch((error) => {
+            console.error("Error during training:", error);
+            setMessage("❌ " + error.message);
+        }).finally(() => setIsTraining(false));
+    };
+
+    const last = history[history.length - 1];
+
+    return (
+        <div className="controlPanel">
+            <strong>Training 🏋️</strong>
+            <div className="panelRow">
+                <label>
+                    Epochs
+                    <input type="number" min={1} max={500} value={epochs} style={{ width: "50px", marginLeft: "4px" }}
+                        onChange={(event) => setEpochs(Math.max(1, parseInt(event.target.value) || 1))} />
+                </label>
+                <label>
+                    Validation {percentage(validationSplit)}
+                    <input type="range" min={0} max={0.5} step={0.05} value={validationSplit}
+                        onChange={(event) => setValidationSplit(parseFloat(event.target.value))} />
+                </label>
+                <label>
+                    <input type="checkbox" checked={earlyStopping} onChange={(event) => setEarlyStopping(event.target.checked)} />
+                    Early stopping, patience
+                    <input type="number" min={1} max={50} value={patience} disabled={!earlyStopping} style={{ width: "40px", marginLeft: "4px" }}
+                        onChange={(event) => setPatience(Math.max(1, parseInt(event.target.value) || 1))} />
+                </label>
+                <button className="panelButton" onClick={train} disabled={isTraining || samples.length == 0}>Train Model</button>
+            </div>
+            {message && <div className="panelRow">{message}</div>}
+            {last &&
+                <div className="panelRow">
+                    Epoch {last.epoch}: loss {last.loss.toFixed(3)}, accuracy {percentage(last.accuracy)}
+                    {last.validationLoss !== undefined && `, val loss ${last.validationLoss.toFixed(3)}`}
+                    {last.validationAccuracy !== undefined && `, val accuracy ${percentage(last.validationAccuracy)}`}
+                </div>}
+            <div className="panelRow">
+                <EpochChart title="Loss" series={[
+                    { name: "train", color: "#B01EB0", values: history.map((logs) => logs.loss) },
+                    { name: "val", color: "#FFD400", values: history.map((logs) => logs.validationLoss) },
+                ]} />
+                <EpochChart title="Accuracy" series={[
+                    { name: "train", color: "#B01EB0", values: history.map((logs) => logs.accuracy) },
+                    { name: "val", color: "#FFD400", values: history.map((logs) => logs.validationAccuracy) },
+                ]} />
+            </div>
+            {evaluation &&
+                <div className="panelRow" style={{ alignItems: "flex-start" }}>
+                    <table className="metricsTable">
+                        <thead>
+                            <tr><th>Class</th><th>Precision</th><th>Recall</th><th>Val samples</th></tr>
+                        </thead>
+                        <tbody>
+                            {evaluation.classMetrics.map((metrics) => (
+                                <tr key={metrics.label}>
+                                    <td>{metrics.label}</td>
+                                    <td>{percentage(metrics.precision)}</td>
+                                    <td>{percentage(metrics.recall)}</td>
+                                    <td>{metrics.support}</td>
+                                </tr>
+                            ))}
+                            <tr><td>Accuracy</td><td colSpan={3}>{percentage(evaluation.accuracy)}</td></tr>
+                        </tbody>
+                    </table>
+                    <table className="metricsTable">
+                        <thead>
+                            <tr><th>Actual \ Predicted</th>{labels.map((label) => <th key={label}>{label}</th>)}</tr>
+                        </thead>
+                        <tbody>
+                            {evaluation.confusionMatrix.map((row, actual) => (
+                                <tr key={labels[actual]}>
+                                    <th>{labels[actual]}</th>
+                                    {row.map((count, predicted) => (
+                                        <td key={labels[predicted]} className={count > 0 ? (actual == predicted ? "metricsCorrect" : "metricsWrong") : ""}>{count}</td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>}
+        </div>
+    );
+};
+
+export default TrainingPanel;
@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from "react";
+import currentMode, { Mode, ModeChangeEvent } from "../CurrentMode";
+import kitRegistry from "../kits/KitRegistry";
+import velocityCurves, { VELOCITY_CURVE_TYPES, VelocityCurveType } from "../kits/VelocityCurve";
+import { AudioManager } from "../AudioManager";
+
+interface VelocityPanelProps {
+    soundManager: AudioManager
+}
+
+/**
+ * Panel to shape how the velocity of the hits maps to their gain, for the kit of the active mode,
+ * and to limit how many samples ring at once
+ */
+const VelocityPanel = (props: VelocityPanelProps) => {
+    const voiceManager = props.soundManager.getVoiceManager();
+    const [kitId, setKitId] = useState<Mode>(currentMode.getMode());
+    const [, setRevision] = useState<number>(0);
+
+    useEffect(() => {
+        const listener = () => setRevision((revision) => revision + 1);
+        velocityCurves.addListener(listener);
+        voiceManager?.addListener(listener);
+        const unsubscribe = currentMode.subscribe((event: ModeChangeEvent) => setKitId(event.next));
+        return () => {
+            velocityCurves.removeListener(listener);
+            voiceManager?.removeListener(listener);
+            unsubscribe();
+        };
+    }, [voiceManager]);
+
+    const curve = velocityCurves.get(kitId);
+
+    return (
+        <div className="controlPanel">
+            <div className="panelRow">
+                <strong>Dynamics 🥁</strong>
+                <span style={{ marginLeft: "8px" }}>{kitRegistry.get(kitId)?.name ?? kitId}</span>
+            </div>
+            <div className="panelRow">
+                <span className="panelLabel">Curve</span>
+                <select value={curve.type} onChange={(event) => velocityCurves.set(kitId, { ...curve, type: event.target.value as VelocityCurveType })}>
+                    {VELOCITY_CURVE_TYPES.map((type) => <option key={type} value={type}>{type}</option>)}
+                </select>
+                <label>
+                    Softest hit {Math.round(curve.minGain * 100)}%
+                    <input type="range" min={0} max={1} step={0.01} value={curve.minGain} disabled={curve.type == "fixed"}
+                        onChange={(event) => velocityCurves.set(kitId, { ...curve, minGain: parseFloat(event.target.value) })} />
+                </label>
+                <button className="panelButton" onClick={() => velocityCurves.reset(kitId)}>Reset</button>
+            </div>
+            {voiceManager &&
+                <div className="panelRow">
+                    <span className="panelLabel">Voices</span>
+                    <label>
+                        Max {voiceManager.getMaxPolyphony()}
+                        <input type="range" min={1} max={32} step={1} value={voiceManager.getMaxPolyphony()}
+                            onChange={(event) => voiceManager.setMaxPolyphony(parseInt(event.target.value, 10))} />
+                    </label>
+                </div>}
+        </div>
+    );
+};
+
+export default VelocityPanel;
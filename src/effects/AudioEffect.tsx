@@ -0,0 +1,73 @@
+/**
+ * Base class of every effect of the rack. The input is split between a dry path and the wet
+ * chain built by the subclass, both are summed into the output
+ */
+export abstract class AudioEffect {
+    abstract readonly name: string;
+    /** Wet level applied the first time the effect is picked with a gesture */
+    abstract readonly defaultWet: number;
+
+    readonly input: GainNode;
+    readonly output: GainNode;
+    protected readonly audioContext: BaseAudioContext;
+    private dryGain: GainNode;
+    private wetGain: GainNode;
+    private wet: number = 0;
+    protected amount: number = 0.5;
+
+    constructor(audioContext: BaseAudioContext) {
+        this.audioContext = audioContext;
+        this.input = audioContext.createGain();
+        this.output = audioContext.createGain();
+        this.dryGain = audioContext.createGain();
+        this.wetGain = audioContext.createGain();
+
+        this.input.connect(this.dryGain);
+        this.dryGain.connect(this.output);
+        this.wetGain.connect(this.output);
+        this.setWet(0);
+    }
+
+    /**
+     * Function to plug the wet chain of the subclass between the input and the wet gain
+     */
+    protected connectWetChain(first: AudioNode, last: AudioNode) {
+        this.input.connect(first);
+        last.connect(this.wetGain);
+    }
+
+    getWet() {
+        return this.wet;
+    }
+
+    /**
+     * Function to set the wet/dry balance, 0 bypasses the effect and 1 only plays the processed signal
+     */
+    setWet(wet: number) {
+        this.wet = Math.min(1, Math.max(0, wet));
+        const now = this.audioContext.currentTime;
+        this.wetGain.gain.setTargetAtTime(this.wet, now, 0.01);
+        this.dryGain.gain.setTargetAtTime(1 - this.wet, now, 0.01);
+    }
+
+    isEnabled() {
+        return this.wet > 0;
+    }
+
+    getAmount() {
+        return this.amount;
+    }
+
+    /**
+     * Function to set the main parameter of the effect, normalized between 0 and 1
+     */
+    setAmount(amount: number) {
+        this.amount = Math.min(1, Math.max(0, amount));
+        this.applyAmount(this.amount);
+    }
+
+    /** Human readable value of the main parameter */
+    abstract getAmountText(): string;
+
+    protected abstract applyAmount(amount: number): void;
+}
@@ -0,0 +1,43 @@
+import { AudioEffect } from "./AudioEffect";
+
+const MAX_DELAY_TIME = 1.5;
+
+/**
+ * Feedback delay, the sweep controls the delay time
+ */
+export class DelayEffect extends AudioEffect {
+    readonly name = "Delay";
+    readonly defaultWet = 0.4;
+    private delay: DelayNode;
+    private feedback: GainNode;
+
+    constructor(audioContext: BaseAudioContext) {
+        super(audioContext);
+        this.delay = audioContext.createDelay(MAX_DELAY_TIME);
+        this.feedback = audioContext.createGain();
+        this.delay.connect(this.feedback);
+        this.feedback.connect(this.delay);
+        this.connectWetChain(this.delay, this.delay);
+        this.setFeedback(0.45);
+        this.setAmount(0.3);
+    }
+
+    getFeedback() {
+        return this.feedback.gain.value;
+    }
+
+    /**
+     * Function to set how much of the delayed signal is fed back, kept below 1 to avoid runaway echoes
+     */
+    setFeedback(feedback: number) {
+        this.feedback.gain.value = Math.min(0.95, Math.max(0, feedback));
+    }
+
+    getAmountText() {
+        return Math.round(this.delay.delayTime.value * 1000) + "ms";
+    }
+
+    protected applyAmount(amount: number) {
+        this.delay.delayTime.setTargetAtTime(0.05 + amount * (MAX_DELAY_TIME - 0.05), this.audioContext.currentTime, 0.05);
+    }
+}
@@ -0,0 +1,39 @@
+import { AudioEffect } from "./AudioEffect";
+
+const CURVE_SAMPLES = 2048;
+
+/**
+ * Waveshaper distortion, the sweep controls the drive
+ */
+export class DistortionEffect extends AudioEffect {
+    readonly name = "Distortion";
+    readonly defaultWet = 1;
+    private shaper: WaveShaperNode;
+    private makeUp: GainNode;
+
+    constructor(audioContext: BaseAudioContext) {
+        super(audioContext);
+        this.shaper = audioContext.createWaveShaper();
+        this.shaper.oversample = "4x";
+        this.makeUp = audioContext.createGain();
+        this.shaper.connect(this.makeUp);
+        this.connectWetChain(this.shaper, this.makeUp);
+        this.setAmount(0.3);
+    }
+
+    getAmountText() {
+        return Math.round(this.amount * 100) + "%";
+    }
+
+    protected applyAmount(amount: number) {
+        const drive = 1 + amount * 99;
+        const curve = new Float32Array(CURVE_SAMPLES);
+        for (let i = 0; i < CURVE_SAMPLES; i++) {
+            const x = (i * 2) / CURVE_SAMPLES - 1;
+            curve[i] = Math.tanh(drive * x);
+        }
+        this.shaper.curve = curve;
+        // Compensate the loudness added by the drive
+        this.makeUp.gain.value = 1 / Math.sqrt(drive);
+    }
+}
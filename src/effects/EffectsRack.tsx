@@ -0,0 +1,114 @@
+import { AudioEffect } from "./AudioEffect";
+import { DelayEffect } from "./DelayEffect";
+import { DistortionEffect } from "./DistortionEffect";
+import { FilterEffect } from "./FilterEffect";
+import { ReverbEffect } from "./ReverbEffect";
+
+export type EffectType = "filter" | "delay" | "reverb" | "distortion";
+
+export const EFFECT_TYPES: EffectType[] = ["filter", "distortion", "delay", "reverb"];
+
+/**
+ * Nodes of the WaveSurfer WebAudio backend the rack is inserted between
+ */
+interface WebAudioBackendGraph {
+    analyser: AnalyserNode | null;
+    gainNode: GainNode | null;
+}
+
+/**
+ * Chain of effects applied to the waveform track, in the order filter → distortion → delay → reverb
+ */
+export class EffectsRack {
+    readonly input: GainNode;
+    readonly output: GainNode;
+    private effects: Map<EffectType, AudioEffect> = new Map();
+    private attachedGraph: WebAudioBackendGraph | undefined = undefined; // of the waveform the rack is inserted in
+    private listeners: any = [];
+
+    constructor(audioContext: BaseAudioContext) {
+        this.input = audioContext.createGain();
+        this.output = audioContext.createGain();
+
+        this.effects.set("filter", new FilterEffect(audioContext));
+        this.effects.set("distortion", new DistortionEffect(audioContext));
+        this.effects.set("delay", new DelayEffect(audioContext));
+        this.effects.set("reverb", new ReverbEffect(audioContext));
+
+        let previous: AudioNode = this.input;
+        EFFECT_TYPES.forEach((type) => {
+            const effect = this.effects.get(type)!;
+            previous.connect(effect.input);
+            previous = effect.output;
+        });
+        previous.connect(this.output);
+    }
+
+    addListener(listener: any) {
+        this.listeners.push(listener);
+    }
+
+    removeListener(listener: any) {
+        this.listeners = this.listeners.filter((l: any) => l !== listener);
+    }
+
+    fireListeners() {
+        this.listeners.forEach((listener: any) => listener());
+    }
+
+    /**
+     * Function to insert the rack in the WaveSurfer WebAudio graph, between its analyser and its volume node.
+     * setFilters() is not used because it would also connect the rack input straight to its output
+     */
+    attach(waveform: WaveSurfer) {
+        const backend = waveform.backend as unknown as WebAudioBackendGraph;
+        if (!backend.analyser || !backend.gainNode) {
+            console.error("Effects rack needs the WebAudio backend");
+            return;
+        }
+        this.detach();
+        backend.analyser.disconnect();
+        backend.analyser.connect(this.input);
+        this.output.connect(backend.gainNode);
+        this.attachedGraph = backend;
+    }
+
+    /**
+     * Function to take the rack out of the graph of the waveform it was attached to, e.g. before a new waveform replaces it
+     */
+    detach() {
+        if (this.attachedGraph?.gainNode) {
+            this.output.disconnect(this.attachedGraph.gainNode);
+            this.attachedGraph = undefined;
+        }
+    }
+
+    getEffect(type: EffectType) {
+        return this.effects.get(type)!;
+    }
+
+    setWet(type: EffectType, wet: number) {
+        this.getEffect(type).setWet(wet);
+        this.fireListeners();
+    }
+
+    setAmount(type: EffectType, amount: number) {
+        this.getEffect(type).setAmount(amount);
+        this.fireListeners();
+    }
+
+    /**
+     * Function to turn on an effect with its default wet level, if it is bypassed
+     */
+    enable(type: EffectType) {
+        const effect = this.getEffect(type);
+        if (!effect.isEnabled()) {
+            this.setWet(type, effect.defaultWet);
+        }
+    }
+
+    bypassAll() {
+        EFFECT_TYPES.forEach((type) => this.getEffect(type).setWet(0));
+        this.fireListeners();
+    }
+}
@@ -0,0 +1,38 @@
+import { AudioEffect } from "./AudioEffect";
+
+const MIN_FREQUENCY = 40;
+const MAX_FREQUENCY = 18000;
+
+/**
+ * DJ style filter: the lower half of the sweep closes a low-pass filter, the upper half opens a high-pass one
+ */
+export class FilterEffect extends AudioEffect {
+    readonly name = "Filter";
+    readonly defaultWet = 1;
+    private filter: BiquadFilterNode;
+
+    constructor(audioContext: BaseAudioContext) {
+        super(audioContext);
+        this.filter = audioContext.createBiquadFilter();
+        this.filter.Q.value = 6;
+        this.connectWetChain(this.filter, this.filter);
+        this.setAmount(0.5);
+    }
+
+    getAmountText() {
+        return (this.filter.type == "lowpass" ? "LP " : "HP ") + Math.round(this.filter.frequency.value) + "Hz";
+    }
+
+    protected applyAmount(amount: number) {
+        // Exponential mapping, the ear perceives frequencies logarithmically
+        let frequency: number;
+        if (amount < 0.5) {
+            this.filter.type = "lowpass";
+            frequency = MIN_FREQUENCY * Math.pow(MAX_FREQUENCY / MIN_FREQUENCY, amount * 2);
+        } else {
+            this.filter.type = "highpass";
+            frequency = MIN_FREQUENCY * Math.pow(MAX_FREQUENCY / MIN_FREQUENCY, (amount - 0.5) * 2) / 4;
+        }
+        this.filter.frequency.setTargetAtTime(frequency, this.audioContext.currentTime, 0.02);
+    }
+}
@@ -0,0 +1,51 @@
+import { AudioEffect } from "./AudioEffect";
+
+const MIN_DECAY = 0.3;
+const MAX_DECAY = 6;
+
+/**
+ * Convolution reverb with a synthetic impulse response, the sweep controls the decay time
+ */
+export class ReverbEffect extends AudioEffect {
+    readonly name = "Reverb";
+    readonly defaultWet = 0.4;
+    private convolver: ConvolverNode;
+    private decay: number = 0;
+
+    constructor(audioContext: BaseAudioContext) {
+        super(audioContext);
+        this.convolver = audioContext.createConvolver();
+        this.connectWetChain(this.convolver, this.convolver);
+        this.setAmount(0.3);
+    }
+
+    getAmountText() {
+        return this.decay.toFixed(1) + "s";
+    }
+
+    protected applyAmount(amount: number) {
+        const decay = MIN_DECAY + amount * (MAX_DECAY - MIN_DECAY);
+        // Building the impulse is expensive, skip the tiny changes produced by the hand jitter
+        if (Math.abs(decay - this.decay) < 0.1) {
+            return;
+        }
+        this.decay = decay;
+        this.convolver.buffer = this.createImpulseResponse(decay);
+    }
+
+    /**
+     * Function to build a stereo impulse response made of exponentially decaying white noise
+     */
+    private createImpulseResponse(decay: number) {
+        const sampleRate = this.audioContext.sampleRate;
+        const length = Math.floor(sampleRate * decay);
+        const impulse = this.audioContext.createBuffer(2, length, sampleRate);
+        for (let channel = 0; channel < impulse.numberOfChannels; channel++) {
+            const data = impulse.getChannelData(channel);
+            for (let i = 0; i < length; i++) {
+                data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, 3);
+            }
+        }
+        return impulse;
+    }
+}
@@ -0,0 +1,116 @@
+import { DRUM_PADS, DrumPad } from "../kits/SampleKit";
+
+/**
+ * Actions of the keyboard and of the MIDI controllers. volume and speed follow a knob or a fader,
+ * the others are triggered by a key, a pad or a button
+ */
+export type InputAction =
+    | "playPause"
+    | "volumeUp"
+    | "volumeDown"
+    | "speedUp"
+    | "speedDown"
+    | "volume"
+    | "speed"
+    | "loopIn"
+    | "loopOut"
+    | "clearLoop"
+    | "halveLoop"
+    | "doubleLoop"
+    | `pad:${DrumPad}`;
+
+export const INPUT_ACTIONS: InputAction[] = [
+    "playPause",
+    "volumeUp",
+    "volumeDown",
+    "speedUp",
+    "speedDown",
+    "volume",
+    "speed",
+    "loopIn",
+    "loopOut",
+    "clearLoop",
+    "halveLoop",
+    "doubleLoop",
+    ...DRUM_PADS.map((pad): InputAction => `pad:${pad}`),
+];
+
+export const CONTINUOUS_ACTIONS: InputAction[] = ["volume", "speed"];
+
+export function isContinuous(action: InputAction) {
+    return CONTINUOUS_ACTIONS.includes(action);
+}
+
+export function describeInputAction(action: InputAction) {
+    switch (action) {
+        case "playPause":
+            return "Play/Pause";
+        case "volumeUp":
+            return "Volume up";
+        case "volumeDown":
+            return "Volume down";
+        case "speedUp":
+            return "Speed up";
+        case "speedDown":
+            return "Speed down";
+        case "volume":
+            return "Volume (knob)";
+        case "speed":
+            return "Speed (knob)";
+        case "loopIn":
+            return "Loop in";
+        case "loopOut":
+            return "Loop out";
+        case "clearLoop":
+            return "Remove loop";
+        case "halveLoop":
+            return "Halve loop";
+        case "doubleLoop":
+            return "Double loop";
+    }
+    return "Pad " + action.split(":")[1];
+}
+
+/**
+ * A note or a control change of a MIDI controller, channel 0-15 or undefined for any channel
+ */
+export interface MidiMapping {
+    type: "note" | "cc";
+    number: number;
+    channel?: number;
+}
+
+export function describeMidiMapping(mapping: MidiMapping) {
+    return (mapping.type == "note" ? "Note " : "CC ") + mapping.number + (mapping.channel != undefined ? " ch" + (mapping.channel + 1) : "");
+}
+
+export interface InputBindings {
+    keyboard: Partial<Record<InputAction, string>>; // KeyboardEvent.code
+    midi: Partial<Record<InputAction, MidiMapping>>;
+}
+
+export const DEFAULT_INPUT_BINDINGS: InputBindings = {
+    keyboard: {
+        "playPause": "Space",
+        "volumeUp": "ArrowUp",
+        "volumeDown": "ArrowDown",
+        "speedUp": "ArrowRight",
+        "speedDown": "ArrowLeft",
+        "loopIn": "KeyI",
+        "loopOut": "KeyO",
+        "clearLoop": "KeyX",
+        "halveLoop": "BracketLeft",
+        "doubleLoop": "BracketRight",
+        "pad:index": "KeyA",
+        "pad:middle": "KeyS",
+        "pad:ring": "KeyD",
+        "pad:pinky": "KeyF",
+    },
+    // General MIDI drum notes of the drums kit, most pad controllers send them out of the box
+    midi: {
+        "pad:index": { type: "note", number: 36 },
+        "pad:middle": { type: "note", number: 38 },
+        "pad:ring": { type: "note", number: 42 },
+        "pad:pinky": { type: "note", number: 39 },
+    },
+};
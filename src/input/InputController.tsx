@@ -0,0 +1,295 @@
+import { AudioManager } from "../AudioManager";
+import { DrumPad } from "../kits/SampleKit";
+import { IntentAdapter } from "../intents/IntentAdapter";
+import { DEFAULT_INPUT_BINDINGS, InputAction, InputBindings, MidiMapping, describeInputAction, isContinuous } from "./InputBindings";
+
+const BINDINGS_KEY = "tuneCrafter.inputBindings";
+
+const VOLUME_STEP = 0.05;
+const SPEED_STEP = 0.05;
+
+export type LearnSource = "keyboard" | "midi";
+
+export interface LearnTarget {
+    action: InputAction;
+    source: LearnSource;
+}
+
+export type MidiStatus = "unsupported" | "disconnected" | "connected" | "denied";
+
+/**
+ * Fallback input for rehearsing without the camera: keyboard shortcuts and Web MIDI controllers trigger the same
+ * intents as the gestures. In learn mode the next key or MIDI message is bound to the chosen action
+ */
+export class InputController {
+    private adapter: IntentAdapter;
+    private soundManager: AudioManager;
+    private bindings: InputBindings;
+    private learnTarget: LearnTarget | null = null;
+    private midiAccess: MIDIAccess | null = null;
+    private midiStatus: MidiStatus = "disconnected";
+    private attached: boolean = false;
+    private listeners: any = [];
+
+    constructor(adapter: IntentAdapter, soundManager: AudioManager) {
+        this.adapter = adapter;
+        this.soundManager = soundManager;
+        this.bindings = this.load();
+    }
+
+    addListener(listener: any) {
+        this.listeners.push(listener);
+    }
+
+    removeListener(listener: any) {
+        this.listeners = this.listeners.filter((l: any) => l !== listener);
+    }
+
+    fireListeners() {
+        this.listeners.forEach((listener: any) => listener());
+    }
+
+    /**
+     * Function to start listening to the keyboard and to the MIDI inputs
+     */
+    attach() {
+        if (this.attached) {
+            return;
+        }
+        this.attached = true;
+        window.addEventListener("keydown", this.onKeyDown);
+        this.connectMidi();
+    }
+
+    detach() {
+        this.attached = false;
+        window.removeEventListener("keydown", this.onKeyDown);
+        this.midiAccess?.inputs.forEach((input) => input.removeEventListener("midimessage", this.onMidiMessage as EventListener));
+        if (this.midiAccess) {
+            this.midiAccess.onstatechange = null;
+        }
+    }
+
+    getBindings() {
+        return this.bindings;
+    }
+
+    getMidiStatus() {
+        return this.midiStatus;
+    }
+
+    getMidiInputNames(): string[] {
+        return this.midiAccess ? Array.from(this.midiAccess.inputs.values()).map((input) => input.name ?? input.id) : [];
+    }
+
+    getLearnTarget() {
+        return this.learnTarget;
+    }
+
+    startLearn(action: InputAction, source: LearnSource) {
+        this.learnTarget = { action: action, source: source };
+        this.fireListeners();
+    }
+
+    cancelLearn() {
+        this.learnTarget = null;
+        this.fireListeners();
+    }
+
+    unbind(action: InputAction, source: LearnSource) {
+        delete this.bindings[source][action];
+        this.save();
+        this.fireListeners();
+    }
+
+    resetBindings() {
+        this.bindings = structuredClone(DEFAULT_INPUT_BINDINGS);
+        this.save();
+        this.fireListeners();
+    }
+
+    private connectMidi() {
+        if (!navigator.requestMIDIAccess) {
+            this.midiStatus = "unsupported";
+            this.fireListeners();
+            return;
+        }
+        navigator.requestMIDIAccess().then((access) => {
+            if (!this.attached) {
+                return;
+            }
+            this.midiAccess = access;
+            this.listenToMidiInputs();
+            // Controllers plugged in later are picked up too
+            access.onstatechange = () => this.listenToMidiInputs();
+        }).catch((error) => {
+            console.error("Error accessing the MIDI devices:", error);
+            this.midiStatus = "denied";
+            this.fireListeners();
+        });
+    }
+
+    private listenToMidiInputs() {
+        this.midiAccess?.inputs.forEach((input) => {
+            // Removing first avoids a second listener on the inputs already followed
+            input.removeEventListener("midimessage", this.onMidiMessage as EventListener);
+            input.addEventListener("midimessage", this.onMidiMessage as EventListener);
+        });
+        this.midiStatus = this.midiAccess && this.midiAccess.inputs.size > 0 ? "connected" : "disconnected";
+        this.fireListeners();
+    }
+
+    private onKeyDown = (event: KeyboardEvent) => {
+        // Typing a gesture label or a profile name is not a shortcut
+        const target = event.target as HTMLElement | null;
+        if (target && (target.tagName == "INPUT" || target.tagName == "TEXTAREA" || target.tagName == "SELECT" || target.isContentEditable)) {
+            return;
+        }
+
+        if (this.learnTarget?.source == "keyboard") {
+            event.preventDefault();
+            if (event.code != "Escape") {
+                this.bind(this.learnTarget.action, "keyboard", event.code);
+            } else {
+                this.cancelLearn();
+            }
+            return;
+        }
+
+        const action = (Object.keys(this.bindings.keyboard) as InputAction[]).find((a) => this.bindings.keyboard[a] == event.code);
+        if (action == undefined || isContinuous(action)) {
+            return;
+        }
+        event.preventDefault();
+        // Holding a key repeats the steps, not the triggers
+        const isStep = action == "volumeUp" || action == "volumeDown" || action == "speedUp" || action == "speedDown";
+        if (event.repeat && !isStep) {
+            return;
+        }
+        this.trigger(action, "⌨️");
+    };
+
+    private onMidiMessage = (event: MIDIMessageEvent) => {
+        if (!event.data || event.data.length < 2) {
+            return;
+        }
+        const status = event.data[0] & 0xf0;
+        const channel = event.data[0] & 0x0f;
+        const number = event.data[1];
+        const value = event.data.length > 2 ? event.data[2] : 0;
+
+        let type: "note" | "cc";
+        if (status == 0x90 && value > 0) {
+            type = "note";
+        } else if (status == 0xb0) {
+            type = "cc";
+        } else {
+            // Note off, or note on with velocity 0
+            return;
+        }
+
+        if (this.learnTarget?.source == "midi") {
+            this.bind(this.learnTarget.action, "midi", { type: type, number: number, channel: channel });
+            return;
+        }
+
+        const action = (Object.keys(this.bindings.midi) as InputAction[]).find((a) => {
+            const mapping = this.bindings.midi[a]!;
+            return mapping.type == type && mapping.number == number && (mapping.channel == undefined || mapping.channel == channel);
+        });
+        if (action == undefined) {
+            return;
+        }
+        if (isContinuous(action)) {
+            this.setContinuous(action, value / 127);
+        } else if (type == "note" || value >= 64) {
+            // A button sending CC triggers on press, a pad plays with the velocity of its note
+            this.trigger(action, "🎹", type == "note" ? value / 127 : 1);
+        }
+    };
+
+    private bind(action: InputAction, source: LearnSource, binding: string | MidiMapping) {
+        const bindings = this.bindings[source] as Partial<Record<InputAction, string | MidiMapping>>;
+        // A key or a MIDI message drives one action only
+        (Object.keys(bindings) as InputAction[]).forEach((a) => {
+            if (JSON.stringify(bindings[a]) == JSON.stringify(binding)) {
+                delete bindings[a];
+            }
+        });
+        bindings[action] = binding;
+        this.learnTarget = null;
+        this.save();
+        this.fireListeners();
+    }
+
+    /**
+     * Function to run a triggered action through the intent adapter, velocity (0..1) is for the pads
+     */
+    trigger(action: InputAction, icon: string, velocity: number = 1) {
+        const waveform = this.soundManager.getWaveform();
+        switch (action) {
+            case "playPause":
+                this.adapter.apply({ type: "TogglePlayback" });
+                break;
+            case "volumeUp":
+            case "volumeDown": {
+                const volume = (this.soundManager.getMixer()?.getTargetVolume() ?? 1) + (action == "volumeUp" ? VOLUME_STEP : -VOLUME_STEP);
+                this.setContinuous("volume", volume);
+                return;
+            }
+            case "speedUp":
+            case "speedDown": {
+                const speed = this.soundManager.getSpeedValue() + (action == "speedUp" ? SPEED_STEP : -SPEED_STEP);
+                this.adapter.apply({ type: "SetRate", rate: Math.min(2, Math.max(0.5, speed)) });
+                this.adapter.apply({ type: "StatusText", text: icon + " Speed: " + this.soundManager.getSpeedValue().toFixed(2) + "x" });
+                return;
+            }
+            case "loopIn":
+                this.adapter.apply({ type: "LoopStart", time: waveform?.getCurrentTime() ?? 0 });
+                break;
+            case "loopOut":
+                this.adapter.apply({ type: "LoopEnd", time: waveform?.getCurrentTime() ?? 0 });
+                break;
+            case "clearLoop":
+                this.adapter.apply({ type: "ClearLoop" });
+                break;
+            case "halveLoop":
+            case "doubleLoop":
+                // The adapter shows the new length
+                this.adapter.apply({ type: "ScaleLoop", factor: action == "halveLoop" ? 0.5 : 2 });
+                return;
+            default:
+                this.adapter.apply({ type: "DrumHit", pad: action.split(":")[1] as DrumPad, velocity: velocity });
+                break;
+        }
+        this.adapter.apply({ type: "StatusText", text: icon + " → " + describeInputAction(action) });
+    }
+
+    /**
+     * Function to set the volume or the speed from a 0..1 value (the position of a knob)
+     */
+    private setContinuous(action: InputAction, value: number) {
+        const clamped = Math.min(1, Math.max(0, value));
+        if (action == "volume") {
+            this.adapter.apply({ type: "SetVolume", volume: clamped });
+        } else if (action == "speed") {
+            this.adapter.apply({ type: "SetRate", rate: 0.5 + clamped * 1.5 });
+        }
+    }
+
+    private load(): InputBindings {
+        try {
+            const saved = localStorage.getItem(BINDINGS_KEY);
+            if (saved) {
+                return { ...structuredClone(DEFAULT_INPUT_BINDINGS), ...JSON.parse(saved) };
+            }
+        } catch (error) {
+            console.error("Error loading the input bindings:", error);
+        }
+        return structuredClone(DEFAULT_INPUT_BINDINGS);
+    }
+
+    private save() {
+        localStorage.setItem(BINDINGS_KEY, JSON.stringify(this.bindings));
+    }
+}
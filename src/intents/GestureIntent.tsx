@@ -0,0 +1,24 @@
+import { DrumPad } from "../kits/SampleKit";
+import { EffectType } from "../effects/EffectsRack";
+
+/**
+ * What a control surface (webcam gestures, custom gestures, keyboard...) asks the app to do. The intents are plain
+ * data: the surface decides them, the IntentAdapter applies them to WaveSurfer, the samples and the page
+ */
+export type GestureIntent =
+    | { type: "TogglePlayback" }
+    | { type: "SetVolume", volume: number } // 0..1
+    | { type: "SetRate", rate: number } // playback speed, 0.5..2
+    | { type: "SetEffect", effect: EffectType, amount: number } // 0..1, the adapter shows the value in the unit of the effect
+    | { type: "LoopStart", time: number } // seconds of the track
+    | { type: "LoopEnd", time: number }
+    | { type: "ClearLoop" }
+    | { type: "ScaleLoop", factor: number } // 0.5 halves the loop, 2 doubles it, from its start
+    | { type: "SetLoopLength", beats: number } // beats of the track tempo, from the loop start or from the current time
+    | { type: "DrumHit", pad: DrumPad, velocity: number } // 0..1
+    | { type: "StatusText", text: string }
+    | { type: "TrackEvent", label: string }; // analytics of the gesture steps
+
+export type GestureIntentType = GestureIntent["type"];
+
+export type IntentListener = (intent: GestureIntent) => void;
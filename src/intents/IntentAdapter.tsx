@@ -0,0 +1,178 @@
+import ReactGA from 'react-ga4';
+import { AudioManager } from "../AudioManager";
+import { GestureIntent, IntentListener } from "./GestureIntent";
+import loopSettings, { divisionLength, snapToGrid } from "../loop/LoopSettings";
+
+const LOOP_COLOR = "#e0a9e06e";
+const MIN_LOOP_LENGTH = 0.05; // seconds
+
+/**
+ * Applies the intents of the control surfaces to the WaveSurfer of the AudioManager (playback, speed, loop region), to the samples,
+ * mixer and effects of the AudioManager and to the current gesture element. The volume goes to the target channel of the mixer,
+ * the loop points snap to the beat grid of the track when the loop settings quantize them. Listeners get every applied intent,
+ * e.g. to show the volume bar
+ */
+export class IntentAdapter {
+    private soundManager: AudioManager;
+    private regions: any = undefined;
+    private loopStart: number | undefined = undefined;
+    private loopEnd: number | undefined = undefined;
+    private listeners: IntentListener[] = [];
+
+    constructor(soundManager: AudioManager) {
+        this.soundManager = soundManager;
+    }
+
+    haveRegions() {
+        return this.regions != undefined;
+    }
+
+    setRegions(regions: any) {
+        this.regions = regions;
+    }
+
+    addListener(listener: IntentListener) {
+        this.listeners.push(listener);
+    }
+
+    removeListener(listener: IntentListener) {
+        this.listeners = this.listeners.filter((l) => l !== listener);
+    }
+
+    fireListeners(intent: GestureIntent) {
+        this.listeners.forEach((listener) => listener(intent));
+    }
+
+    applyAll(intents: GestureIntent[]) {
+        intents.forEach((intent) => this.apply(intent));
+    }
+
+    apply(intent: GestureIntent) {
+        const waveform = this.soundManager.getWaveform();
+        switch (intent.type) {
+            case "TogglePlayback":
+                waveform?.playPause();
+                break;
+            case "SetVolume":
+                this.soundManager.getMixer()?.setTargetVolume(intent.volume);
+                break;
+            case "SetRate":
+                this.soundManager.setSpeedValue(intent.rate);
+                waveform?.setPlaybackRate(this.soundManager.getSpeedValue());
+                break;
+            case "SetEffect": {
+                const rack = this.soundManager.getEffectsRack();
+                if (rack) {
+                    rack.enable(intent.effect);
+                    rack.setAmount(intent.effect, intent.amount);
+                    const effect = rack.getEffect(intent.effect);
+                    this.showStatus("👍 + 🔄 → " + effect.name + ": " + effect.getAmountText());
+                }
+                break;
+            }
+            case "LoopStart":
+                this.loopStart = this.quantize(intent.time);
+                this.loopEnd = undefined;
+                this.regions?.clearRegions();
+                this.regions?.addRegion({
+                    start: this.loopStart,
+                    color: LOOP_COLOR,
+                    content: 'Start Loop',
+                    loop: false,
+                    drag: false,
+                    resize: false,
+                });
+                break;
+            case "LoopEnd":
+                if (this.loopStart != undefined && intent.time > this.loopStart) {
+                    this.showLoop(this.loopStart, this.quantizeEnd(this.loopStart, intent.time));
+                }
+                break;
+            case "ClearLoop":
+                this.loopStart = undefined;
+                this.loopEnd = undefined;
+                this.regions?.clearRegions();
+                break;
+            case "ScaleLoop":
+                if (this.loopStart != undefined && this.loopEnd != undefined) {
+                    const end = this.loopStart + (this.loopEnd - this.loopStart) * intent.factor;
+                    const duration = waveform?.getDuration() ?? end;
+                    // The region is resized, not created again, so the playback goes on in the loop
+                    const region = Object.values(this.regions?.list ?? {}).find((r: any) => r.loop) as any;
+                    if (region && end - this.loopStart >= MIN_LOOP_LENGTH && end <= duration) {
+                        region.update({ end: end });
+                        this.loopEnd = end;
+                        this.showStatus("🔁 " + (end - this.loopStart).toFixed(2) + "s");
+                    }
+                }
+                break;
+            case "SetLoopLength": {
+                const tempo = this.soundManager.getTempo();
+                if (!tempo) {
+                    this.showStatus("🔁 Detecting tempo…");
+                    break;
+                }
+                const start = this.loopStart ?? this.quantize(waveform?.getCurrentTime() ?? 0);
+                const end = start + intent.beats * 60 / tempo.bpm;
+                if (end <= (waveform?.getDuration() ?? end)) {
+                    this.loopStart = start;
+                    this.showLoop(start, end);
+                    this.showStatus("🔁 " + intent.beats + " beats");
+                }
+                break;
+            }
+            case "DrumHit":
+                this.soundManager.playSound(intent.pad, undefined, intent.velocity);
+                break;
+            case "StatusText":
+                this.showStatus(intent.text);
+                break;
+            case "TrackEvent":
+                ReactGA.event({
+                    category: 'User Interaction',
+                    action: 'gesture',
+                    label: intent.label,
+                });
+                break;
+        }
+        this.fireListeners(intent);
+    }
+
+    private showLoop(start: number, end: number) {
+        this.loopEnd = end;
+        this.regions?.clearRegions();
+        this.regions?.addRegion({
+            start: start,
+            end: end,
+            color: LOOP_COLOR,
+            content: 'Start Loop',
+            loop: true,
+            drag: false,
+            resize: false,
+        });
+    }
+
+    /**
+     * Function to snap a loop point to the beat grid of the track, as it is when there is no tempo or no quantize
+     */
+    private quantize(time: number) {
+        const tempo = this.soundManager.getTempo();
+        const beats = loopSettings.get().quantize;
+        return tempo ? snapToGrid(time, tempo, beats) : time;
+    }
+
+    // The loop is at least one division long, even when both points snap to the same line
+    private quantizeEnd(start: number, time: number) {
+        const tempo = this.soundManager.getTempo();
+        const beats = loopSettings.get().quantize;
+        const end = this.quantize(time);
+        return tempo && beats > 0 && end <= start ? start + divisionLength(tempo, beats) : end;
+    }
+
+    private showStatus(text: string) {
+        const current_gesture = document.getElementById('current_gesture') as HTMLOutputElement | null;
+        if (current_gesture) {
+            current_gesture.innerText = text;
+        }
+    }
+}
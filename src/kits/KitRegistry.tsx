@@ -0,0 +1,37 @@
+import { Mode } from "../CurrentMode";
+import { SampleKit } from "./SampleKit";
+import { DEFAULT_KITS } from "./defaultKits";
+
+/**
+ * Registry of the available sample kits. A new kit only needs a manifest registered here,
+ * the AudioManager loads and plays it without further changes
+ */
+export class KitRegistry {
+    private kits: Map<Mode, SampleKit> = new Map();
+
+    constructor(kits: SampleKit[] = []) {
+        kits.forEach((kit) => this.register(kit));
+    }
+
+    register(kit: SampleKit) {
+        if (this.kits.has(kit.id)) {
+            console.warn("Kit already registered, replacing it: " + kit.id);
+        }
+        this.kits.set(kit.id, kit);
+    }
+
+    has(id: Mode) {
+        return this.kits.has(id);
+    }
+
+    get(id: Mode) {
+        return this.kits.get(id);
+    }
+
+    getAll() {
+        return Array.from(this.kits.values());
+    }
+}
+
+const kitRegistry = new KitRegistry(DEFAULT_KITS);
+export default kitRegistry;
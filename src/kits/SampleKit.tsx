@@ -0,0 +1,59 @@
+import { Mode } from "../CurrentMode";
+import { VelocityCurve } from "./VelocityCurve";
+
+/**
+ * Finger pads that can trigger a sample: each one matches a finger touching the thumb
+ */
+export type DrumPad = 'index' | 'middle' | 'ring' | 'pinky';
+
+export const DRUM_PADS: DrumPad[] = ['index', 'middle', 'ring', 'pinky'];
+
+export interface Song {
+    path: string; // under assets/sounds/
+    name: string;
+    shortName?: string;
+    trackId?: string; // track of the user library, played instead of the path
+    aliases?: string[]; // other names the voice commands find the song by
+}
+
+export interface KitColors {
+    waveColor: string;
+    progressColor: string;
+}
+
+/**
+ * How the hits of a kit are written in a MIDI file: channel 9 is the General MIDI percussion channel,
+ * a pad can play several notes at once (e.g. a chord) held for the given duration in seconds
+ */
+export interface KitMidi {
+    channel: number;
+    notes: Record<DrumPad, number[]>;
+    duration: number;
+}
+
+/**
+ * Extra sample of a pad played from the given velocity (0..1) up, e.g. a harder stroke of the same drum
+ */
+export interface SampleLayer {
+    path: string;
+    minVelocity: number;
+}
+
+/**
+ * Declarative description of a sample kit: which sample every finger plays, the waveform colors
+ * and, optionally, the velocity curve, the velocity layers of the pads, the choke groups (a hit cuts the ringing
+ * samples of the pads in its group, its own included) and the playlist loaded on the waveform when the kit is selected.
+ * Every kit belongs to the mode with the same id
+ */
+export interface SampleKit {
+    id: Mode;
+    name: string;
+    icon?: string; // shown next to the voice command of the mode, e.g. "🎹"
+    samples: Record<DrumPad, string>;
+    colors: KitColors;
+    midi: KitMidi;
+    velocity?: VelocityCurve;
+    layers?: Partial<Record<DrumPad, SampleLayer[]>>;
+    chokeGroups?: Partial<Record<DrumPad, string>>;
+    songs?: Song[];
+}
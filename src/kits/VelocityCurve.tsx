@@ -0,0 +1,103 @@
+import { Mode } from "../CurrentMode";
+import kitRegistry from "./KitRegistry";
+
+const CURVES_KEY = "tuneCrafter.velocityCurves";
+
+/**
+ * Shapes of the velocity to gain mapping: soft makes the light hits louder, hard keeps them quieter,
+ * fixed plays every hit at full gain like before the velocity
+ */
+export type VelocityCurveType = "linear" | "soft" | "hard" | "fixed";
+
+export const VELOCITY_CURVE_TYPES: VelocityCurveType[] = ["linear", "soft", "hard", "fixed"];
+
+export interface VelocityCurve {
+    type: VelocityCurveType;
+    minGain: number; // gain of the lightest hit, 0..1
+}
+
+export const DEFAULT_VELOCITY_CURVE: VelocityCurve = { type: "linear", minGain: 0.15 };
+
+/**
+ * Function to get the gain of a hit from its velocity (0..1)
+ */
+export function velocityToGain(velocity: number, curve: VelocityCurve): number {
+    const v = Math.min(1, Math.max(0, velocity));
+    let shaped: number;
+    switch (curve.type) {
+        case "soft":
+            shaped = Math.sqrt(v);
+            break;
+        case "hard":
+            shaped = v * v;
+            break;
+        case "fixed":
+            return 1;
+        default:
+            shaped = v;
+    }
+    return curve.minGain + (1 - curve.minGain) * shaped;
+}
+
+/**
+ * Function to get the MIDI velocity (1..127) of a hit
+ */
+export function toMidiVelocity(velocity: number) {
+    return Math.round(1 + Math.min(1, Math.max(0, velocity)) * 126);
+}
+
+/**
+ * Velocity curve of every kit: the one of its manifest, unless the performer changed it
+ */
+export class VelocityCurveStore {
+    private curves: Map<Mode, VelocityCurve> = new Map();
+    listeners: any = [];
+
+    constructor() {
+        this.load();
+    }
+
+    get(kitId: Mode): VelocityCurve {
+        return this.curves.get(kitId) ?? kitRegistry.get(kitId)?.velocity ?? DEFAULT_VELOCITY_CURVE;
+    }
+
+    set(kitId: Mode, curve: VelocityCurve) {
+        this.curves.set(kitId, curve);
+        this.save();
+        this.fireListeners();
+    }
+
+    reset(kitId: Mode) {
+        this.curves.delete(kitId);
+        this.save();
+        this.fireListeners();
+    }
+
+    addListener(listener: any) {
+        this.listeners.push(listener);
+    }
+
+    removeListener(listener: any) {
+        this.listeners = this.listeners.filter((l: any) => l !== listener);
+    }
+
+    fireListeners() {
+        this.listeners.forEach((listener: any) => listener());
+    }
+
+    private load() {
+        try {
+            const saved = JSON.parse(localStorage.getItem(CURVES_KEY) ?? "{}") as Record<Mode, VelocityCurve>;
+            (Object.keys(saved) as Mode[]).forEach((kitId) => this.curves.set(kitId, saved[kitId]));
+        } catch (error) {
+            console.error("Error loading the velocity curves:", error);
+        }
+    }
+
+    private save() {
+        localStorage.setItem(CURVES_KEY, JSON.stringify(Object.fromEntries(this.curves)));
+    }
+}
+
+const velocityCurves = new VelocityCurveStore();
+export default velocityCurves;
@@ -0,0 +1,57 @@
+import { SampleKit } from "./SampleKit";
+
+export const NORMAL_KIT: SampleKit = {
+    id: "normal",
+    name: "Drums",
+    samples: {
+        index: "assets/sounds/kick.wav",
+        middle: "assets/sounds/snare.wav",
+        ring: "assets/sounds/hat.wav",
+        pinky: "assets/sounds/clap.wav",
+    },
+    colors: { waveColor: "#B01EB0", progressColor: "#0B060E" },
+    // Bass drum, acoustic snare, closed hi-hat, hand clap
+    midi: { channel: 9, notes: { index: [36], middle: [38], ring: [42], pinky: [39] }, duration: 0.1 },
+    velocity: { type: "linear", minGain: 0.15 },
+};
+
+export const CHRISTMAS_KIT: SampleKit = {
+    id: "christmas",
+    name: "Christmas",
+    icon: "🎅🎄",
+    samples: {
+        index: "assets/sounds/christmas-little-bells.mp3",
+        middle: "assets/sounds/christmas-bell.mp3",
+        ring: "assets/sounds/christmas-ding.mp3",
+        pinky: "assets/sounds/merry-christmas.mp3",
+    },
+    colors: { waveColor: "#C8102E", progressColor: "#0B6623" },
+    // Open triangle, ride bell, mute triangle, tambourine
+    midi: { channel: 9, notes: { index: [81], middle: [53], ring: [80], pinky: [54] }, duration: 0.1 },
+    // The bells are quiet samples, the light hits must stay audible
+    velocity: { type: "soft", minGain: 0.3 },
+    // The long "merry christmas" starts again instead of piling up
+    chokeGroups: { pinky: "voice" },
+    songs: [{ path: "hiddenSounds/christmas.mp3", name: "Christmas Track" }],
+};
+
+export const PIANO_KIT: SampleKit = {
+    id: "piano",
+    name: "Piano",
+    icon: "🎹",
+    samples: {
+        index: "assets/sounds/chords/faM.wav",
+        middle: "assets/sounds/chords/solm.wav",
+        ring: "assets/sounds/chords/rem.wav",
+        pinky: "assets/sounds/chords/sibM.wav",
+    },
+    colors: { waveColor: "#F5F5F5", progressColor: "#0B060E" },
+    // F major, G minor, D minor, B♭ major
+    midi: { channel: 0, notes: { index: [65, 69, 72], middle: [67, 70, 74], ring: [62, 65, 69], pinky: [70, 74, 77] }, duration: 1.5 },
+    velocity: { type: "hard", minGain: 0.1 },
+    // A new chord replaces the one ringing, like lifting the hands from the keys
+    chokeGroups: { index: "chords", middle: "chords", ring: "chords", pinky: "chords" },
+    songs: [{ path: "hiddenSounds/piano.wav", name: "Piano Track" }],
+};
+
+export const DEFAULT_KITS: SampleKit[] = [NORMAL_KIT, CHRISTMAS_KIT, PIANO_KIT];
@@ -0,0 +1,124 @@
+import kitRegistry from "../kits/KitRegistry";
+import { Song } from "../kits/SampleKit";
+import { BUNDLED_PLAYLIST, CatalogPlaylist, HIDDEN_PLAYLISTS } from "./bundledPlaylists";
+import trackLibrary, { USER_TRACKS_PLAYLIST } from "./TrackLibrary";
+
+export const MATCH_THRESHOLD = 0.75;
+
+export type CatalogKind = "track" | "playlist";
+
+/**
+ * A playlist, or a song of a playlist, found for a spoken name
+ */
+export interface CatalogMatch {
+    kind: CatalogKind;
+    playlist: CatalogPlaylist;
+    songIndex: number; // 0 for a playlist
+    alias: string; // the name that matched
+    score: number; // 0..1
+}
+
+/**
+ * Function to reduce a name to lowercase words without accents, punctuation nor markup, e.g. "Måneskin - Ella!" → "maneskin ella"
+ */
+export function normalizeName(name: string) {
+    return name
+        .replace(/<[^>]*>/g, " ")
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, " ")
+        .trim();
+}
+
+function editDistance(a: string, b: string) {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] == b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+function ratio(a: string, b: string) {
+    return a.length + b.length == 0 ? 1 : 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * Function to score (0..1) how well a transcript matches a name: the whole strings are compared with the edit distance,
+ * and the words of the transcript found (nearly) as they are in the name count as well, e.g. "techno" for "Techno Track"
+ */
+export function similarity(query: string, name: string) {
+    const a = normalizeName(query);
+    const b = normalizeName(name);
+    if (!a || !b) {
+        return 0;
+    }
+    const queryWords = a.split(" ");
+    const nameWords = b.split(" ");
+    const found = queryWords.filter((word) => nameWords.some((nameWord) => ratio(word, nameWord) >= 0.8)).length;
+    const wordScore = (found / queryWords.length) * (0.7 + 0.3 * Math.min(1, found / nameWords.length));
+    return Math.max(ratio(a, b), wordScore);
+}
+
+function songNames(song: Song) {
+    return [song.name, ...(song.shortName ? [song.shortName] : []), ...(song.aliases ?? [])];
+}
+
+/**
+ * Every playlist the voice commands can address: the bundled and hidden ones, the ones of the kits and the user library.
+ * Playlists and songs declare their aliases, so a new track needs no code change to be found by voice
+ */
+export class PlaylistCatalog {
+
+    async getPlaylists(): Promise<CatalogPlaylist[]> {
+        const kitPlaylists = kitRegistry.getAll()
+            .filter((kit) => kit.songs)
+            .map((kit): CatalogPlaylist => ({ name: kit.name, aliases: [kit.id], songs: kit.songs! }));
+        const playlists = [BUNDLED_PLAYLIST, ...HIDDEN_PLAYLISTS, ...kitPlaylists];
+        try {
+            const userSongs = await trackLibrary.getSongs();
+            if (userSongs.length > 0) {
+                playlists.push({ name: USER_TRACKS_PLAYLIST, songs: userSongs });
+            }
+            for (const playlist of await trackLibrary.listPlaylists()) {
+                playlists.push({ name: playlist.id, aliases: playlist.aliases, songs: await trackLibrary.getSongs(playlist.trackIds) });
+            }
+        } catch (error) {
+            console.error("Error reading the track library:", error);
+        }
+        return playlists.filter((playlist) => playlist.songs.length > 0);
+    }
+
+    /**
+     * Function to find the playlist or the song whose name or alias best matches a transcript, undefined when none
+     * reaches the threshold. A song in several playlists is found in the first one
+     */
+    async find(query: string, kind?: CatalogKind, threshold: number = MATCH_THRESHOLD): Promise<CatalogMatch | undefined> {
+        let best: CatalogMatch | undefined = undefined;
+        const consider = (match: CatalogMatch) => {
+            if (match.score >= threshold && (!best || match.score > best.score)) {
+                best = match;
+            }
+        };
+        (await this.getPlaylists()).forEach((playlist) => {
+            if (kind != "track") {
+                [playlist.name, ...(playlist.aliases ?? [])].forEach((alias) => {
+                    consider({ kind: "playlist", playlist: playlist, songIndex: 0, alias: alias, score: similarity(query, alias) });
+                });
+            }
+            if (kind != "playlist") {
+                playlist.songs.forEach((song, index) => songNames(song).forEach((alias) => {
+                    consider({ kind: "track", playlist: playlist, songIndex: index, alias: alias, score: similarity(query, alias) });
+                }));
+            }
+        });
+        return best;
+    }
+}
+
+const playlistCatalog = new PlaylistCatalog();
+export default playlistCatalog;
@@ -0,0 +1,182 @@
+import { Song } from "../kits/SampleKit";
+import { deleteRecord, getAllRecords, getRecord, putRecord } from "../storage/IndexedDB";
+import { TempoAnalyzer } from "../tempo/TempoAnalyzer";
+import { TempoResult } from "../tempo/TempoDetection";
+
+/**
+ * Audio file of the user, stored in the application database with what the playlists show of it
+ */
+export interface UserTrack {
+    id: string;
+    title: string;
+    fileName: string;
+    duration: number; // seconds
+    bpm?: number; // detected when the track is added
+    tempo?: TempoResult; // with the beat phase, the waveform does not analyse the track again
+    aliases?: string[]; // other names for the voice commands
+    blob: Blob;
+    createdAt: number;
+}
+
+/**
+ * Named list of tracks of the library, in playing order
+ */
+export interface Playlist {
+    id: string; // the name
+    trackIds: string[];
+    aliases?: string[];
+    createdAt: number;
+}
+
+export const USER_TRACKS_PLAYLIST = "My tracks"; // every track of the user library
+
+const AUDIO_EXTENSIONS = /\.(mp3|wav|ogg|oga|m4a|aac|flac|webm)$/i;
+
+export function isAudioFile(file: File) {
+    return file.type.startsWith("audio/") || AUDIO_EXTENSIONS.test(file.name);
+}
+
+// The title is the file name without its extension, e.g. "My Song.mp3" → "My Song"
+function titleOf(fileName: string) {
+    return fileName.replace(/\.[^.]+$/, "") || fileName;
+}
+
+/**
+ * Library of the tracks the user drops on the waveform and of their playlists, persisted in IndexedDB.
+ * Listeners are called when a track or a playlist is added or removed
+ */
+export class TrackLibrary {
+    private tempoAnalyzer: TempoAnalyzer = new TempoAnalyzer();
+    private urls: Map<string, string> = new Map(); // object URLs of the tracks already played
+    listeners: any = [];
+
+    addListener(listener: any) {
+        this.listeners.push(listener);
+    }
+
+    removeListener(listener: any) {
+        this.listeners = this.listeners.filter((l: any) => l !== listener);
+    }
+
+    fireListeners() {
+        this.listeners.forEach((listener: any) => listener());
+    }
+
+    async listTracks(): Promise<UserTrack[]> {
+        const tracks = await getAllRecords<UserTrack>("tracks");
+        return tracks.sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    getTrack(id: string): Promise<UserTrack | undefined> {
+        return getRecord<UserTrack>("tracks", id);
+    }
+
+    /**
+     * Function to decode an audio file, to get its duration and tempo, and store it in the library
+     */
+    async addTrack(file: File, audioContext: BaseAudioContext): Promise<UserTrack> {
+        if (!isAudioFile(file)) {
+            throw new Error("Not an audio file: " + file.name);
+        }
+        const buffer = await audioContext.decodeAudioData(await file.arrayBuffer());
+        const tempo = await this.tempoAnalyzer.analyze(buffer);
+        const track: UserTrack = {
+            id: Date.now().toString(36) + "-" + Math.random().toString(36).substring(2, 8),
+            title: titleOf(file.name),
+            fileName: file.name,
+            duration: buffer.duration,
+            bpm: tempo.confidence > 0 ? tempo.bpm : undefined,
+            tempo: tempo,
+            blob: file,
+            createdAt: Date.now(),
+        };
+        await putRecord<UserTrack>("tracks", track);
+        this.fireListeners();
+        return track;
+    }
+
+    async renameTrack(id: string, title: string) {
+        const track = await this.getTrack(id);
+        if (track && title.trim()) {
+            await putRecord<UserTrack>("tracks", { ...track, title: title.trim() });
+            this.fireListeners();
+        }
+    }
+
+    async setTrackAliases(id: string, aliases: string[]) {
+        const track = await this.getTrack(id);
+        if (track) {
+            await putRecord<UserTrack>("tracks", { ...track, aliases: aliases });
+            this.fireListeners();
+        }
+    }
+
+    /**
+     * Function to delete a track, it is also removed from the playlists
+     */
+    async deleteTrack(id: string) {
+        await deleteRecord("tracks", id);
+        const url = this.urls.get(id);
+        if (url) {
+            URL.revokeObjectURL(url);
+            this.urls.delete(id);
+        }
+        const playlists = await this.listPlaylists();
+        await Promise.all(playlists
+            .filter((playlist) => playlist.trackIds.includes(id))
+            .map((playlist) => putRecord<Playlist>("playlists", { ...playlist, trackIds: playlist.trackIds.filter((t) => t != id) })));
+        this.fireListeners();
+    }
+
+    /**
+     * Function to get a URL the waveform can load the track from, undefined if the track was deleted
+     */
+    async getTrackUrl(id: string): Promise<string | undefined> {
+        if (!this.urls.has(id)) {
+            const track = await this.getTrack(id);
+            if (!track) {
+                return undefined;
+            }
+            this.urls.set(id, URL.createObjectURL(track.blob));
+        }
+        return this.urls.get(id);
+    }
+
+    async listPlaylists(): Promise<Playlist[]> {
+        const playlists = await getAllRecords<Playlist>("playlists");
+        return playlists.sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    async savePlaylist(name: string, trackIds: string[]) {
+        const existing = await getRecord<Playlist>("playlists", name);
+        await putRecord<Playlist>("playlists", { ...existing, id: name, trackIds: trackIds, createdAt: existing?.createdAt ?? Date.now() });
+        this.fireListeners();
+    }
+
+    async setPlaylistAliases(name: string, aliases: string[]) {
+        const playlist = await getRecord<Playlist>("playlists", name);
+        if (playlist) {
+            await putRecord<Playlist>("playlists", { ...playlist, aliases: aliases });
+            this.fireListeners();
+        }
+    }
+
+    async deletePlaylist(name: string) {
+        await deleteRecord("playlists", name);
+        this.fireListeners();
+    }
+
+    /**
+     * Function to get the songs of the waveform for tracks of the library, the missing ones are skipped
+     */
+    async getSongs(trackIds?: string[]): Promise<Song[]> {
+        const tracks = await this.listTracks();
+        const selected = trackIds
+            ? trackIds.map((id) => tracks.find((track) => track.id == id)).filter((track): track is UserTrack => track != undefined)
+            : tracks;
+        return selected.map((track) => ({ path: track.fileName, name: track.title, trackId: track.id, aliases: track.aliases }));
+    }
+}
+
+const trackLibrary = new TrackLibrary();
+export default trackLibrary;
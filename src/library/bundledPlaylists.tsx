@@ -0,0 +1,48 @@
+import { Song } from "../kits/SampleKit";
+
+/**
+ * Playlist of the catalog. The voice commands find it by its name or by one of its aliases, hidden playlists
+ * are only reachable by voice
+ */
+export interface CatalogPlaylist {
+    name: string;
+    aliases?: string[];
+    hidden?: boolean;
+    songs: Song[];
+}
+
+export const BUNDLED_PLAYLIST: CatalogPlaylist = {
+    name: "Bundled tracks",
+    aliases: ["bundled", "default"],
+    songs: [
+        { path: "audio.mp3", name: "Original Track", aliases: ["original"] },
+        { path: "audio_techno.mp3", name: "Techno Track", aliases: ["techno"] },
+        { path: "audio_original.mp3", name: "Chill Track", aliases: ["chill"] },
+    ],
+};
+
+export const HIDDEN_PLAYLISTS: CatalogPlaylist[] = [
+    {
+        name: "Laura",
+        aliases: ["laura"],
+        hidden: true,
+        songs: [{ path: "hiddenSounds/laura.mp3", name: "Måneskin - Ella baila sola (cover de Peso Pluma) LIVE", aliases: ["ella baila sola"] }],
+    },
+    {
+        name: "Emilio",
+        aliases: ["emilio"],
+        hidden: true,
+        songs: [{ path: "hiddenSounds/emilio.mp3", name: "Emilio's Track" }],
+    },
+    {
+        name: "Nina",
+        aliases: ["nina"],
+        hidden: true,
+        songs: [{
+            path: "hiddenSounds/nina.mp3",
+            name: "Love on the Brain (Rihanna Cover) by Nina <a target='_blank' href='https://www.instagram.com/ninamazza_/'>@ninamazza_</a>",
+            shortName: "Love on the Brain (Rihanna Cover) by Nina",
+            aliases: ["love on the brain"],
+        }],
+    },
+];
@@ -0,0 +1,43 @@
+/**
+ * Crossfade at the seam of a loop: when the playback jumps back to the loop start, the track fades in while the
+ * audio that follows the loop end keeps playing on a side source and fades out, so the jump does not click
+ */
+export class LoopSeam {
+    readonly node: GainNode; // on the track, between its volume and the mixer
+    private audioContext: BaseAudioContext;
+
+    constructor(audioContext: BaseAudioContext) {
+        this.audioContext = audioContext;
+        this.node = audioContext.createGain();
+    }
+
+    /**
+     * Function to crossfade the tail of the buffer from the loop end (seconds of the track) into the track,
+     * which has just jumped back. The tail goes to tailDestination, e.g. the effects of the track
+     */
+    crossfade(buffer: AudioBuffer, loopEnd: number, playbackRate: number, duration: number, tailDestination: AudioNode) {
+        const now = this.audioContext.currentTime;
+        this.node.gain.cancelScheduledValues(now);
+        if (duration <= 0) {
+            this.node.gain.setValueAtTime(1, now);
+            return;
+        }
+        this.node.gain.setValueAtTime(0, now);
+        this.node.gain.linearRampToValueAtTime(1, now + duration);
+
+        if (loopEnd >= buffer.duration) {
+            return;
+        }
+        const tail = this.audioContext.createBufferSource();
+        const tailGain = this.audioContext.createGain();
+        tail.buffer = buffer;
+        tail.playbackRate.value = playbackRate;
+        tail.connect(tailGain);
+        tailGain.connect(tailDestination);
+        tailGain.gain.setValueAtTime(1, now);
+        tailGain.gain.linearRampToValueAtTime(0, now + duration);
+        tail.onended = () => tailGain.disconnect();
+        tail.start(now, loopEnd);
+        tail.stop(now + duration);
+    }
+}
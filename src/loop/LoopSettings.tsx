@@ -0,0 +1,101 @@
+import { TempoResult } from "../tempo/TempoDetection";
+
+const SETTINGS_KEY = "tuneCrafter.loopSettings";
+
+/**
+ * Grid the loop points snap to, in beats of the track tempo. 0 keeps the loop points where the gestures set them
+ */
+export interface QuantizeDivision {
+    name: string;
+    beats: number;
+}
+
+export const QUANTIZE_DIVISIONS: QuantizeDivision[] = [
+    { name: "Off", beats: 0 },
+    { name: "1/2 beat", beats: 0.5 },
+    { name: "Beat", beats: 1 },
+    { name: "2 beats", beats: 2 },
+    { name: "Bar", beats: 4 },
+];
+
+export interface LoopSettings {
+    quantize: number; // beats, 0 for no quantize
+    crossfade: number; // seconds of the crossfade at the loop seam, 0 for none
+}
+
+export const DEFAULT_LOOP_SETTINGS: LoopSettings = { quantize: 1, crossfade: 0.02 };
+
+export const MAX_CROSSFADE = 0.1;
+
+/**
+ * Function to get the length in seconds of a division of the grid
+ */
+export function divisionLength(tempo: TempoResult, beats: number) {
+    return beats * 60 / tempo.bpm;
+}
+
+/**
+ * Function to move a time of the track to the nearest line of the grid, which starts on the first downbeat
+ */
+export function snapToGrid(time: number, tempo: TempoResult, beats: number) {
+    if (beats <= 0) {
+        return time;
+    }
+    const length = divisionLength(tempo, beats);
+    const snapped = tempo.firstDownbeat + Math.round((time - tempo.firstDownbeat) / length) * length;
+    return Math.min(tempo.duration, Math.max(0, snapped));
+}
+
+/**
+ * Quantize and crossfade of the loops, saved for the next sessions
+ */
+export class LoopSettingsStore {
+    private settings: LoopSettings = { ...DEFAULT_LOOP_SETTINGS };
+    listeners: any = [];
+
+    constructor() {
+        this.load();
+    }
+
+    get(): LoopSettings {
+        return this.settings;
+    }
+
+    setQuantize(beats: number) {
+        this.settings = { ...this.settings, quantize: Math.max(0, beats) };
+        this.save();
+    }
+
+    setCrossfade(seconds: number) {
+        this.settings = { ...this.settings, crossfade: Math.min(MAX_CROSSFADE, Math.max(0, seconds)) };
+        this.save();
+    }
+
+    addListener(listener: any) {
+        this.listeners.push(listener);
+    }
+
+    removeListener(listener: any) {
+        this.listeners = this.listeners.filter((l: any) => l !== listener);
+    }
+
+    fireListeners() {
+        this.listeners.forEach((listener: any) => listener());
+    }
+
+    private load() {
+        try {
+            this.settings = { ...DEFAULT_LOOP_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? "{}") };
+        } catch (error) {
+            console.error("Error loading the loop settings:", error);
+        }
+    }
+
+    private save() {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+        this.fireListeners();
+    }
+}
+
+const loopSettings = new LoopSettingsStore();
+export default loopSettings;
@@ -0,0 +1,186 @@
+import { DRUM_PADS, DrumPad } from "../kits/SampleKit";
+
+/**
+ * Channels of the mixer: the waveform track, every drum pad and the master they are summed on
+ */
+export type ChannelId = "track" | DrumPad | "master";
+
+export const MIXER_CHANNELS: ChannelId[] = ["track", ...DRUM_PADS, "master"];
+
+const CHANNEL_NAMES: Record<ChannelId, string> = {
+    track: "Track",
+    index: "Index",
+    middle: "Middle",
+    ring: "Ring",
+    pinky: "Pinky",
+    master: "Master",
+};
+
+export function describeChannel(id: ChannelId) {
+    return CHANNEL_NAMES[id];
+}
+
+/**
+ * Strip of the mixer: input (gain) → stereo pan → output (mute/solo), the meter reads the output
+ */
+export class MixerChannel {
+    readonly id: ChannelId;
+    readonly input: GainNode;
+    readonly output: GainNode;
+    private panner: StereoPannerNode;
+    private analyser: AnalyserNode;
+    private meterData: Float32Array<ArrayBuffer>;
+    private muted: boolean = false;
+    private soloed: boolean = false;
+
+    constructor(audioContext: BaseAudioContext, id: ChannelId) {
+        this.id = id;
+        this.input = audioContext.createGain();
+        this.panner = audioContext.createStereoPanner();
+        this.output = audioContext.createGain();
+        this.analyser = audioContext.createAnalyser();
+        this.analyser.fftSize = 512;
+        this.meterData = new Float32Array(this.analyser.fftSize);
+
+        this.input.connect(this.panner);
+        this.panner.connect(this.output);
+        this.output.connect(this.analyser);
+    }
+
+    getGain() {
+        return this.input.gain.value;
+    }
+
+    setGain(gain: number) {
+        this.input.gain.value = Math.min(1, Math.max(0, gain));
+    }
+
+    getPan() {
+        return this.panner.pan.value;
+    }
+
+    setPan(pan: number) {
+        this.panner.pan.value = Math.min(1, Math.max(-1, pan));
+    }
+
+    isMuted() {
+        return this.muted;
+    }
+
+    isSoloed() {
+        return this.soloed;
+    }
+
+    /**
+     * Function to get the peak level (0..1) of the last samples out of the channel
+     */
+    getLevel() {
+        this.analyser.getFloatTimeDomainData(this.meterData);
+        let peak = 0;
+        for (let i = 0; i < this.meterData.length; i++) {
+            peak = Math.max(peak, Math.abs(this.meterData[i]));
+        }
+        return Math.min(1, peak);
+    }
+
+    setMuted(muted: boolean) {
+        this.muted = muted;
+    }
+
+    setSoloed(soloed: boolean) {
+        this.soloed = soloed;
+    }
+
+    setAudible(audible: boolean) {
+        this.output.gain.value = audible ? 1 : 0;
+    }
+}
+
+/**
+ * Mixer of the track and the drum pads on the master channel, which goes to the speakers.
+ * A soloed channel silences the other ones but the master; the volume gesture moves the gain of the target channel
+ */
+export class Mixer {
+    private channels: Map<ChannelId, MixerChannel> = new Map();
+    private volumeTarget: ChannelId = "track";
+    private listeners: any = [];
+
+    constructor(audioContext: BaseAudioContext, destination: AudioNode) {
+        MIXER_CHANNELS.forEach((id) => this.channels.set(id, new MixerChannel(audioContext, id)));
+        const master = this.getMaster();
+        master.output.connect(destination);
+        MIXER_CHANNELS.filter((id) => id != "master").forEach((id) => this.getChannel(id).output.connect(master.input));
+    }
+
+    addListener(listener: any) {
+        this.listeners.push(listener);
+    }
+
+    removeListener(listener: any) {
+        this.listeners = this.listeners.filter((l: any) => l !== listener);
+    }
+
+    fireListeners() {
+        this.listeners.forEach((listener: any) => listener());
+    }
+
+    getChannel(id: ChannelId): MixerChannel {
+        return this.channels.get(id)!;
+    }
+
+    getMaster(): MixerChannel {
+        return this.getChannel("master");
+    }
+
+    setGain(id: ChannelId, gain: number) {
+        this.getChannel(id).setGain(gain);
+        this.fireListeners();
+    }
+
+    setPan(id: ChannelId, pan: number) {
+        this.getChannel(id).setPan(pan);
+        this.fireListeners();
+    }
+
+    setMuted(id: ChannelId, muted: boolean) {
+        this.getChannel(id).setMuted(muted);
+        this.updateAudible();
+    }
+
+    setSoloed(id: ChannelId, soloed: boolean) {
+        if (id == "master") {
+            return;
+        }
+        this.getChannel(id).setSoloed(soloed);
+        this.updateAudible();
+    }
+
+    getVolumeTarget() {
+        return this.volumeTarget;
+    }
+
+    setVolumeTarget(id: ChannelId) {
+        this.volumeTarget = id;
+        this.fireListeners();
+    }
+
+    /**
+     * Function to get the gain of the channel the volume gesture controls
+     */
+    getTargetVolume() {
+        return this.getChannel(this.volumeTarget).getGain();
+    }
+
+    setTargetVolume(volume: number) {
+        this.setGain(this.volumeTarget, volume);
+    }
+
+    private updateAudible() {
+        const anySoloed = Array.from(this.channels.values()).some((channel) => channel.isSoloed());
+        this.channels.forEach((channel) => {
+            const soloSilenced = anySoloed && channel.id != "master" && !channel.isSoloed();
+            channel.setAudible(!channel.isMuted() && !soloSilenced);
+        });
+        this.fireListeners();
+    }
+}
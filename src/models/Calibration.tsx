@@ -0,0 +1,102 @@
+import { handScale } from "../utils/helpers";
+
+const CALIBRATIONS_KEY = "tuneCrafter.calibrations";
+
+/**
+ * Thresholds of the touch detections, as fractions of the hand scale (wrist to middle finger MCP), so that they hold
+ * whatever the size of the hand and its distance from the camera
+ */
+export interface HandCalibration {
+    pinchThreshold: number; // finger tip to thumb tip distance of a drum hit
+    cutThreshold: number; // index to middle finger distance of the closed scissors
+    handScale?: number; // hand scale in the image during the calibration, for reference
+}
+
+// About the fixed 0.05 and 0.1 image distances used before, for a hand at the usual distance from the camera
+export const DEFAULT_CALIBRATION: HandCalibration = {
+    pinchThreshold: 0.33,
+    cutThreshold: 0.66,
+};
+
+/**
+ * Function to get the finger tip to thumb tip distances (index, middle, ring, pinky), relative to the hand scale
+ */
+export function getPinchDistances(landmarks: any[]): number[] {
+    const scale = handScale(landmarks) || 1;
+    return [8, 12, 16, 20].map((tip) => Math.hypot(landmarks[tip].x - landmarks[4].x, landmarks[tip].y - landmarks[4].y) / scale);
+}
+
+/**
+ * Function to get the widest gap between the index and the middle finger (PIP, DIP and tip joints), relative to the hand scale
+ */
+export function getScissorsDistance(landmarks: any[]): number {
+    const scale = handScale(landmarks) || 1;
+    return Math.max(...[[6, 10], [7, 11], [8, 12]].map(([a, b]) => Math.hypot(landmarks[a].x - landmarks[b].x, landmarks[a].y - landmarks[b].y) / scale));
+}
+
+/**
+ * Function to check if two landmarks are closer than a threshold relative to the hand scale
+ */
+export function touching(landmarks: any[], a: number, b: number, threshold: number) {
+    return Math.hypot(landmarks[a].x - landmarks[b].x, landmarks[a].y - landmarks[b].y) < threshold * handScale(landmarks);
+}
+
+/**
+ * Calibration of every performer, keyed by the name of their gesture binding profile
+ */
+export class CalibrationStore {
+    private calibrations: Map<string, HandCalibration> = new Map();
+    listeners: any = [];
+
+    constructor() {
+        this.load();
+    }
+
+    get(profile: string): HandCalibration {
+        return this.calibrations.get(profile) ?? DEFAULT_CALIBRATION;
+    }
+
+    isCalibrated(profile: string) {
+        return this.calibrations.has(profile);
+    }
+
+    save(profile: string, calibration: HandCalibration) {
+        this.calibrations.set(profile, calibration);
+        this.persist();
+        this.fireListeners();
+    }
+
+    reset(profile: string) {
+        this.calibrations.delete(profile);
+        this.persist();
+        this.fireListeners();
+    }
+
+    addListener(listener: any) {
+        this.listeners.push(listener);
+    }
+
+    removeListener(listener: any) {
+        this.listeners = this.listeners.filter((l: any) => l !== listener);
+    }
+
+    fireListeners() {
+        this.listeners.forEach((listener: any) => listener());
+    }
+
+    private load() {
+        try {
+            const saved = JSON.parse(localStorage.getItem(CALIBRATIONS_KEY) ?? "{}") as Record<string, HandCalibration>;
+            Object.entries(saved).forEach(([profile, calibration]) => this.calibrations.set(profile, calibration));
+        } catch (error) {
+            console.error("Error loading the calibrations:", error);
+        }
+    }
+
+    private persist() {
+        localStorage.setItem(CALIBRATIONS_KEY, JSON.stringify(Object.fromEntries(this.calibrations)));
+    }
+}
+
+const calibrations = new CalibrationStore();
+export default calibrations;
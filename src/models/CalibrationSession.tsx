@@ -0,0 +1,171 @@
+import { handScale } from "../utils/helpers";
+import { HandCalibration, getPinchDistances, getScissorsDistance } from "./Calibration";
+
+export type CalibrationStep = "openHand" | "pinch" | "scissorsOpen" | "scissorsClosed";
+
+export const CALIBRATION_STEPS: { step: CalibrationStep, instruction: string }[] = [
+    { step: "openHand", instruction: "🖐️ Open your hand, fingers apart" },
+    { step: "pinch", instruction: "👌 Touch your thumb with your index and hold" },
+    { step: "scissorsOpen", instruction: "✌️ Make a V with index and middle finger" },
+    { step: "scissorsClosed", instruction: "🤞 Close the V, index against middle finger" },
+];
+
+export type CalibrationState = "idle" | "waiting" | "recording" | "done" | "failed";
+
+const WAIT_DURATION = 2000; // ms to get in position before every step
+const RECORD_DURATION = 1500; // ms
+const MIN_SAMPLES = 10;
+
+// Where the thresholds sit between the touching and the apart distances: closer to the touch to avoid false hits
+const PINCH_POSITION = 0.4;
+const CUT_POSITION = 0.5;
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Calibration wizard: records the open and the touching poses of the hand, one step at a time, and derives the
+ * touch thresholds relative to the hand scale
+ */
+export class CalibrationSession {
+    private state: CalibrationState = "idle";
+    private stepIndex: number = 0;
+    private stepStart: number = 0;
+    private samples: Map<CalibrationStep, number[]> = new Map();
+    private scales: number[] = [];
+    private result: HandCalibration | null = null;
+    private error: string = "";
+    private listeners: any = [];
+
+    addListener(listener: any) {
+        this.listeners.push(listener);
+    }
+
+    removeListener(listener: any) {
+        this.listeners = this.listeners.filter((l: any) => l !== listener);
+    }
+
+    fireListeners() {
+        this.listeners.forEach((listener: any) => listener());
+    }
+
+    getState() {
+        return this.state;
+    }
+
+    getStepIndex() {
+        return this.stepIndex;
+    }
+
+    getResult() {
+        return this.result;
+    }
+
+    getError() {
+        return this.error;
+    }
+
+    isActive() {
+        return this.state == "waiting" || this.state == "recording";
+    }
+
+    start() {
+        this.samples = new Map();
+        this.scales = [];
+        this.result = null;
+        this.error = "";
+        this.stepIndex = 0;
+        this.state = "waiting";
+        this.stepStart = 0;
+        this.fireListeners();
+    }
+
+    cancel() {
+        this.state = "idle";
+        this.fireListeners();
+    }
+
+    /**
+     * Function to feed the recognizer results of a webcam frame, the first hand seen is the one calibrated
+     */
+    capture(results: any, timestamp: number) {
+        if (!this.isActive()) {
+            return;
+        }
+        if (this.stepStart == 0) {
+            this.stepStart = timestamp;
+        }
+        if (this.state == "waiting") {
+            if (timestamp - this.stepStart >= WAIT_DURATION) {
+                this.state = "recording";
+                this.stepStart = timestamp;
+                this.fireListeners();
+            }
+            return;
+        }
+
+        const landmarks = results?.landmarks?.[0];
+        const step = CALIBRATION_STEPS[this.stepIndex].step;
+        const stepSamples = this.samples.get(step) ?? [];
+        if (landmarks && handScale(landmarks) > 0) {
+            stepSamples.push(this.measure(step, landmarks));
+            this.samples.set(step, stepSamples);
+            this.scales.push(handScale(landmarks));
+        }
+        // Without enough frames with a hand the step goes on
+        if (timestamp - this.stepStart >= RECORD_DURATION && stepSamples.length >= MIN_SAMPLES) {
+            this.nextStep();
+        }
+    }
+
+    getProgress(timestamp: number = Date.now()) {
+        if (!this.isActive() || this.stepStart == 0) {
+            return 0;
+        }
+        const duration = this.state == "waiting" ? WAIT_DURATION : RECORD_DURATION;
+        return Math.min(1, (timestamp - this.stepStart) / duration);
+    }
+
+    private measure(step: CalibrationStep, landmarks: any[]) {
+        switch (step) {
+            case "openHand":
+                return Math.min(...getPinchDistances(landmarks));
+            case "pinch":
+                return getPinchDistances(landmarks)[0];
+            case "scissorsOpen":
+            case "scissorsClosed":
+                return getScissorsDistance(landmarks);
+        }
+    }
+
+    private nextStep() {
+        this.stepIndex++;
+        this.stepStart = 0;
+        if (this.stepIndex < CALIBRATION_STEPS.length) {
+            this.state = "waiting";
+        } else {
+            this.finish();
+        }
+        this.fireListeners();
+    }
+
+    private finish() {
+        const open = median(this.samples.get("openHand")!);
+        const pinched = median(this.samples.get("pinch")!);
+        const scissorsOpen = median(this.samples.get("scissorsOpen")!);
+        const scissorsClosed = median(this.samples.get("scissorsClosed")!);
+        if (pinched >= open || scissorsClosed >= scissorsOpen) {
+            this.state = "failed";
+            this.error = "The touching poses were not closer than the open ones, try again";
+            return;
+        }
+        this.result = {
+            pinchThreshold: pinched + (open - pinched) * PINCH_POSITION,
+            cutThreshold: scissorsClosed + (scissorsOpen - scissorsClosed) * CUT_POSITION,
+            handScale: median(this.scales),
+        };
+        this.state = "done";
+    }
+}
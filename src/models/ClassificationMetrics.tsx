@@ -0,0 +1,41 @@
+export interface ClassMetrics {
+    label: string;
+    precision: number;
+    recall: number;
+    support: number; // validation samples of the class
+}
+
+/**
+ * Function to count, for every actual class (rows), how many samples were predicted as every class (columns)
+ */
+export function computeConfusionMatrix(actual: number[], predicted: number[], classCount: number): number[][] {
+    const matrix = Array.from({ length: classCount }, () => new Array(classCount).fill(0));
+    actual.forEach((actualClass, i) => {
+        matrix[actualClass][predicted[i]]++;
+    });
+    return matrix;
+}
+
+/**
+ * Function to get precision and recall of every class from the confusion matrix. A class never predicted
+ * (or never present) gets 0 instead of NaN
+ */
+export function computeClassMetrics(matrix: number[][], labels: string[]): ClassMetrics[] {
+    return labels.map((label, c) => {
+        const truePositives = matrix[c][c];
+        const predictedAsClass = matrix.reduce((total, row) => total + row[c], 0);
+        const support = matrix[c].reduce((total, count) => total + count, 0);
+        return {
+            label: label,
+            precision: predictedAsClass > 0 ? truePositives / predictedAsClass : 0,
+            recall: support > 0 ? truePositives / support : 0,
+            support: support,
+        };
+    });
+}
+
+export function computeAccuracy(matrix: number[][]): number {
+    const total = matrix.reduce((sum, row) => sum + row.reduce((rowSum, count) => rowSum + count, 0), 0);
+    const correct = matrix.reduce((sum, row, c) => sum + row[c], 0);
+    return total > 0 ? correct / total : 0;
+}
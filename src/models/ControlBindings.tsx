@@ -0,0 +1,222 @@
+const PROFILES_KEY = "tuneCrafter.controlBindingProfiles";
+const ACTIVE_PROFILE_KEY = "tuneCrafter.activeControlBindingProfile";
+
+/**
+ * Categories of the MediaPipe gesture recognizer
+ */
+export type GestureName = "None" | "Closed_Fist" | "Open_Palm" | "Pointing_Up" | "Thumb_Down" | "Thumb_Up" | "Victory" | "ILoveYou";
+
+export const GESTURE_NAMES: GestureName[] = ["None", "Closed_Fist", "Open_Palm", "Pointing_Up", "Thumb_Down", "Thumb_Up", "Victory", "ILoveYou"];
+
+export type Handedness = "Left" | "Right";
+
+export type BindingHand = Handedness | "Any";
+
+export const BINDING_HANDS: BindingHand[] = ["Any", "Left", "Right"];
+
+/**
+ * Control state a (gesture, hand) pair enters
+ */
+export type ControlAction =
+    | "none"
+    | "playPauseStart"
+    | "playPauseConfirm"
+    | "volume"
+    | "effects"
+    | "effectSelect"
+    | "loopStart"
+    | "loopEnd";
+
+export const CONTROL_ACTIONS: ControlAction[] = ["none", "playPauseStart", "playPauseConfirm", "volume", "effects", "effectSelect", "loopStart", "loopEnd"];
+
+/**
+ * Groups of the GestureModel states a binding can cancel
+ */
+export type ControlState = "playPause" | "cut" | "volume" | "drums" | "effects";
+
+export const CONTROL_STATES: ControlState[] = ["playPause", "cut", "volume", "drums", "effects"];
+
+export function describeControlAction(action: ControlAction) {
+    switch (action) {
+        case "none":
+            return "No action";
+        case "playPauseStart":
+            return "Play/Pause (arm)";
+        case "playPauseConfirm":
+            return "Play/Pause (confirm)";
+        case "volume":
+            return "Volume";
+        case "effects":
+            return "Speed/Effect amount";
+        case "effectSelect":
+            return "Choose effect";
+        case "loopStart":
+            return "Loop start";
+        case "loopEnd":
+            return "Loop end";
+    }
+}
+
+export interface ControlBinding {
+    gesture: GestureName;
+    hand: BindingHand;
+    action: ControlAction;
+    cancels: ControlState[];
+}
+
+export interface ControlBindingProfile {
+    name: string;
+    drumHand: BindingHand; // the hand that plays the kit pinching the fingers
+    bindings: ControlBinding[];
+}
+
+const ALL_BUT = (...states: ControlState[]) => CONTROL_STATES.filter((state) => !states.includes(state));
+
+/**
+ * The bindings the app always had: the right hand controls the playback and the effects, the left hand the drums
+ */
+export const RIGHT_HANDED_PROFILE: ControlBindingProfile = {
+    name: "Right-handed",
+    drumHand: "Left",
+    bindings: [
+        { gesture: "None", hand: "Any", action: "none", cancels: ["volume", "effects"] },
+        { gesture: "Pointing_Up", hand: "Any", action: "none", cancels: ALL_BUT("volume") },
+        { gesture: "Pointing_Up", hand: "Right", action: "volume", cancels: ALL_BUT("volume") },
+        { gesture: "Open_Palm", hand: "Any", action: "none", cancels: ALL_BUT("playPause") },
+        { gesture: "Open_Palm", hand: "Right", action: "playPauseStart", cancels: ALL_BUT("playPause") },
+        { gesture: "Closed_Fist", hand: "Any", action: "none", cancels: ALL_BUT("playPause") },
+        { gesture: "Closed_Fist", hand: "Right", action: "playPauseConfirm", cancels: ALL_BUT("playPause") },
+        { gesture: "Victory", hand: "Left", action: "loopStart", cancels: ALL_BUT("cut") },
+        { gesture: "Victory", hand: "Right", action: "loopEnd", cancels: ALL_BUT("cut") },
+        { gesture: "Thumb_Up", hand: "Any", action: "none", cancels: ALL_BUT("effects") },
+        { gesture: "Thumb_Up", hand: "Right", action: "effects", cancels: ALL_BUT("effects") },
+        { gesture: "Thumb_Down", hand: "Any", action: "none", cancels: CONTROL_STATES },
+        { gesture: "Thumb_Down", hand: "Right", action: "effectSelect", cancels: ALL_BUT("effects") },
+        { gesture: "ILoveYou", hand: "Any", action: "none", cancels: CONTROL_STATES },
+    ],
+};
+
+const mirrorHand = (hand: BindingHand): BindingHand => hand == "Any" ? "Any" : (hand == "Left" ? "Right" : "Left");
+
+/**
+ * Function to swap the hands of every binding, e.g. to get the left-handed layout from the right-handed one
+ */
+export function mirrorProfile(profile: ControlBindingProfile, name: string): ControlBindingProfile {
+    return {
+        name: name,
+        drumHand: mirrorHand(profile.drumHand),
+        bindings: profile.bindings.map((binding) => ({ ...binding, hand: mirrorHand(binding.hand) })),
+    };
+}
+
+export const LEFT_HANDED_PROFILE = mirrorProfile(RIGHT_HANDED_PROFILE, "Left-handed");
+
+export const PRESET_PROFILES = [RIGHT_HANDED_PROFILE, LEFT_HANDED_PROFILE];
+
+export function handMatches(bindingHand: BindingHand, handedness: string) {
+    return bindingHand == "Any" || bindingHand == handedness;
+}
+
+/**
+ * Function to get the binding of a gesture made with a hand. A binding for that exact hand wins over an "Any" one
+ */
+export function findProfileBinding(profile: ControlBindingProfile, gesture: string, handedness: string): ControlBinding | undefined {
+    const bindings = profile.bindings.filter((binding) => binding.gesture == gesture && handMatches(binding.hand, handedness));
+    return bindings.find((binding) => binding.hand != "Any") ?? bindings[0];
+}
+
+/**
+ * Saved binding profiles, one for every performer, and the one in use. The profile names are also used by the
+ * other per-performer settings
+ */
+export class ControlBindingStore {
+    private profiles: Map<string, ControlBindingProfile> = new Map();
+    private activeProfile: string = RIGHT_HANDED_PROFILE.name;
+    listeners: any = [];
+
+    constructor() {
+        PRESET_PROFILES.forEach((profile) => this.profiles.set(profile.name, profile));
+        this.load();
+    }
+
+    getProfiles() {
+        return Array.from(this.profiles.values());
+    }
+
+    getProfile(name: string) {
+        return this.profiles.get(name);
+    }
+
+    getActiveProfile(): ControlBindingProfile {
+        return this.profiles.get(this.activeProfile) ?? RIGHT_HANDED_PROFILE;
+    }
+
+    setActiveProfile(name: string) {
+        if (!this.profiles.has(name)) {
+            return;
+        }
+        this.activeProfile = name;
+        this.save();
+        this.fireListeners();
+    }
+
+    /**
+     * Function to add or replace a profile and make it the active one
+     */
+    saveProfile(profile: ControlBindingProfile) {
+        this.profiles.set(profile.name, profile);
+        this.activeProfile = profile.name;
+        this.save();
+        this.fireListeners();
+    }
+
+    deleteProfile(name: string) {
+        if (this.isPreset(name)) {
+            return;
+        }
+        this.profiles.delete(name);
+        if (this.activeProfile == name) {
+            this.activeProfile = RIGHT_HANDED_PROFILE.name;
+        }
+        this.save();
+        this.fireListeners();
+    }
+
+    isPreset(name: string) {
+        return PRESET_PROFILES.some((preset) => preset.name == name);
+    }
+
+    addListener(listener: any) {
+        this.listeners.push(listener);
+    }
+
+    removeListener(listener: any) {
+        this.listeners = this.listeners.filter((l: any) => l !== listener);
+    }
+
+    fireListeners() {
+        this.listeners.forEach((listener: any) => listener(this.getActiveProfile()));
+    }
+
+    private load() {
+        try {
+            const saved = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? "[]") as ControlBindingProfile[];
+            saved.forEach((profile) => this.profiles.set(profile.name, profile));
+            const active = localStorage.getItem(ACTIVE_PROFILE_KEY);
+            if (active && this.profiles.has(active)) {
+                this.activeProfile = active;
+            }
+        } catch (error) {
+            console.error("Error loading the gesture binding profiles:", error);
+        }
+    }
+
+    private save() {
+        const userProfiles = this.getProfiles().filter((profile) => !this.isPreset(profile.name));
+        localStorage.setItem(PROFILES_KEY, JSON.stringify(userProfiles));
+        localStorage.setItem(ACTIVE_PROFILE_KEY, this.activeProfile);
+    }
+}
+
+const controlBindings = new ControlBindingStore();
+export default controlBindings;
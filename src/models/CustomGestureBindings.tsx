@@ -0,0 +1,141 @@
+import { Mode } from "../CurrentMode";
+import kitRegistry from "../kits/KitRegistry";
+import { DRUM_PADS, DrumPad } from "../kits/SampleKit";
+import { GesturePrediction } from "./CustomGestureClassifier";
+
+const BINDINGS_KEY = "tuneCrafter.customGestureBindings";
+
+export const DEFAULT_THRESHOLD = 0.8;
+export const DEFAULT_DEBOUNCE = 1000; // ms
+
+/**
+ * Actions a custom gesture can trigger, written as strings so that the bindings can be saved as they are
+ */
+export type CustomGestureAction =
+    | "none"
+    | "playPause"
+    | "nextTrack"
+    | "loopStart"
+    | "loopEnd"
+    | "clearLoop"
+    | "halveLoop"
+    | "doubleLoop"
+    | `sample:${DrumPad}`
+    | `mode:${Mode}`;
+
+/**
+ * Function to list the actions a custom gesture can be bound to, one mode per registered kit
+ */
+export function getCustomGestureActions(): CustomGestureAction[] {
+    return [
+        "none",
+        "playPause",
+        "nextTrack",
+        "loopStart",
+        "loopEnd",
+        "clearLoop",
+        "halveLoop",
+        "doubleLoop",
+        ...DRUM_PADS.map((pad): CustomGestureAction => `sample:${pad}`),
+        ...kitRegistry.getAll().map((kit): CustomGestureAction => `mode:${kit.id}`),
+    ];
+}
+
+/**
+ * Function to get a readable name of an action, for the bindings table
+ */
+export function describeAction(action: CustomGestureAction) {
+    switch (action) {
+        case "none":
+            return "No action";
+        case "playPause":
+            return "Play/Pause";
+        case "nextTrack":
+            return "Next track";
+        case "loopStart":
+            return "Loop start";
+        case "loopEnd":
+            return "Loop end";
+        case "clearLoop":
+            return "Remove loop";
+        case "halveLoop":
+            return "Halve loop";
+        case "doubleLoop":
+            return "Double loop";
+    }
+    const [kind, value] = action.split(":");
+    return (kind == "sample" ? "Play " : "Mode ") + value;
+}
+
+export interface CustomGestureBinding {
+    label: string;
+    action: CustomGestureAction;
+    threshold: number; // minimum confidence of the prediction
+    debounce: number; // ms before the same binding can fire again
+}
+
+/**
+ * Maps the labels of the custom classifier to app actions. A prediction fires its action when it is confident
+ * enough and the binding did not fire during the last debounce window
+ */
+export class CustomGestureBinder {
+    private bindings: Map<string, CustomGestureBinding> = new Map();
+    private lastFired: Map<string, number> = new Map();
+
+    constructor() {
+        this.load();
+    }
+
+    getBinding(label: string): CustomGestureBinding {
+        return this.bindings.get(label) ?? { label: label, action: "none", threshold: DEFAULT_THRESHOLD, debounce: DEFAULT_DEBOUNCE };
+    }
+
+    setBinding(binding: CustomGestureBinding) {
+        this.bindings.set(binding.label, binding);
+        this.save();
+    }
+
+    removeBinding(label: string) {
+        this.bindings.delete(label);
+        this.save();
+    }
+
+    /**
+     * Function to check if a prediction is confident enough to be shown and acted on
+     */
+    isConfident(prediction: GesturePrediction) {
+        return prediction.confidence >= this.getBinding(prediction.label).threshold;
+    }
+
+    /**
+     * Function to get the action to run for a prediction, if any
+     */
+    process(prediction: GesturePrediction, now: number = Date.now()): CustomGestureAction | undefined {
+        const binding = this.getBinding(prediction.label);
+        if (binding.action == "none" || !this.isConfident(prediction)) {
+            return undefined;
+        }
+        const lastFired = this.lastFired.get(binding.label);
+        if (lastFired != undefined && now - lastFired < binding.debounce) {
+            return undefined;
+        }
+        this.lastFired.set(binding.label, now);
+        return binding.action;
+    }
+
+    private load() {
+        try {
+            const saved = JSON.parse(localStorage.getItem(BINDINGS_KEY) ?? "[]") as CustomGestureBinding[];
+            saved.forEach((binding) => this.bindings.set(binding.label, binding));
+        } catch (error) {
+            console.error("Error loading the custom gesture bindings:", error);
+        }
+    }
+
+    private save() {
+        localStorage.setItem(BINDINGS_KEY, JSON.stringify(Array.from(this.bindings.values())));
+    }
+}
+
+const customGestureBinder = new CustomGestureBinder();
+export default customGestureBinder;
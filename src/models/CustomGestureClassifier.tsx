@@ -0,0 +1,237 @@
+import * as tf from '@tensorflow/tfjs';
+import { ClassMetrics, computeAccuracy, computeClassMetrics, computeConfusionMatrix } from './ClassificationMetrics';
+
+/**
+ * A recorded custom gesture: the features of its frames and the label typed by the user
+ */
+export interface GestureSample {
+    x: number[];
+    y: string;
+    duration: number;
+}
+
+export interface GesturePrediction {
+    label: string;
+    confidence: number;
+}
+
+/**
+ * Function to build the list of classes from the labels of the samples, in the order they were first recorded
+ */
+export function getClassLabels(samples: GestureSample[]): string[] {
+    const labels: string[] = [];
+    samples.forEach((sample) => {
+        if (!labels.includes(sample.y)) {
+            labels.push(sample.y);
+        }
+    });
+    return labels;
+}
+
+export function countSamplesPerClass(samples: GestureSample[]): Map<string, number> {
+    const counts: Map<string, number> = new Map();
+    samples.forEach((sample) => counts.set(sample.y, (counts.get(sample.y) ?? 0) + 1));
+    return counts;
+}
+
+/**
+ * Function to hold out the same fraction of every class for validation, each class keeps at least one training sample
+ */
+export function splitSamples(samples: GestureSample[], labels: string[], validationSplit: number) {
+    const training: GestureSample[] = [];
+    const validation: GestureSample[] = [];
+    labels.forEach((label) => {
+        const classSamples = samples.filter((sample) => sample.y == label);
+        // Fisher-Yates shuffle, so that the held out samples are not always the last recorded
+        for (let i = classSamples.length - 1; i > 0; i--) {
+            const j = Math.floor(Math.random() * (i + 1));
+            [classSamples[i], classSamples[j]] = [classSamples[j], classSamples[i]];
+        }
+        const validationCount = Math.min(classSamples.length - 1, Math.round(classSamples.length * validationSplit));
+        validation.push(...classSamples.slice(0, validationCount));
+        training.push(...classSamples.slice(validationCount));
+    });
+    return { training: training, validation: validation };
+}
+
+/**
+ * Function to encode a label as a one-hot vector as long as the list of classes
+ */
+export function oneHot(label: string, labels: string[]): number[] {
+    return labels.map((l) => l == label ? 1 : 0);
+}
+
+const DEFAULT_WINDOW_DURATION = 2000; // ms
+
+export interface TrainingOptions {
+    epochs: number;
+    validationSplit: number; // fraction of the samples of every class held out for validation
+    earlyStopping: boolean;
+    patience: number; // epochs without improvement of the validation loss before stopping
+    onEpochEnd?: (logs: EpochLogs) => void;
+}
+
+export const DEFAULT_TRAINING_OPTIONS: TrainingOptions = {
+    epochs: 50,
+    validationSplit: 0.2,
+    earlyStopping: true,
+    patience: 5,
+};
+
+export interface EpochLogs {
+    epoch: number;
+    loss: number;
+    accuracy: number;
+    validationLoss?: number;
+    validationAccuracy?: number;
+}
+
+export interface Evaluation {
+    confusionMatrix: number[][];
+    classMetrics: ClassMetrics[];
+    accuracy: number;
+}
+
+export interface TrainingResult {
+    classifier: CustomGestureClassifier;
+    history: EpochLogs[];
+    evaluation: Evaluation | null;
+}
+
+interface ClassifierMetadata {
+    labels?: string[];
+    windowDuration?: number;
+}
+
+/**
+ * Classifier of the custom gestures: a dense network with a softmax output of one unit per class.
+ * The class labels and the average duration of the training gestures are saved in the model metadata,
+ * so they come back when the model is loaded
+ */
+export class CustomGestureClassifier {
+    readonly model: tf.LayersModel;
+    readonly labels: string[];
+    readonly windowDuration: number; // ms of webcam frames to look at when recognizing
+
+    constructor(model: tf.LayersModel, labels: string[], windowDuration: number = DEFAULT_WINDOW_DURATION) {
+        this.model = model;
+        this.labels = labels;
+        this.windowDuration = windowDuration;
+        this.model.setUserDefinedMetadata({ labels: labels, windowDuration: windowDuration });
+    }
+
+    /**
+     * Function to wrap a model loaded with tf.io, it fails if the model was not trained by this application
+     */
+    static fromModel(model: tf.LayersModel): CustomGestureClassifier {
+        const metadata = model.getUserDefinedMetadata() as ClassifierMetadata | undefined;
+        if (!metadata || !Array.isArray(metadata.labels)) {
+            throw new Error("The classifier has no class labels");
+        }
+        return new CustomGestureClassifier(model, metadata.labels, metadata.windowDuration);
+    }
+
+    /**
+     * Function to train a classifier on the training part of the samples. When a validation part is held out,
+     * the result also has the confusion matrix and the per-class metrics computed on it
+     */
+    static async train(samples: GestureSample[], options: Partial<TrainingOptions> = {}): Promise<TrainingResult> {
+        const { epochs, validationSplit, earlyStopping, patience, onEpochEnd } = { ...DEFAULT_TRAINING_OPTIONS, ...options };
+        const labels = getClassLabels(samples);
+        if (labels.length < 2) {
+            throw new Error("At least two different gestures are needed to train a classifier");
+        }
+
+        const { training, validation } = splitSamples(samples, labels, validationSplit);
+        const xs = tf.tensor2d(training.map((sample) => sample.x));
+        const ys = tf.tensor2d(training.map((sample) => oneHot(sample.y, labels)));
+        const validationXs = validation.length > 0 ? tf.tensor2d(validation.map((sample) => sample.x)) : null;
+        const validationYs = validation.length > 0 ? tf.tensor2d(validation.map((sample) => oneHot(sample.y, labels))) : null;
+
+        const model = tf.sequential();
+        model.add(tf.layers.dense({ units: 64, activation: 'relu', inputShape: [samples[0].x.length] }));
+        model.add(tf.layers.dense({ units: 32, activation: 'relu' }));
+        model.add(tf.layers.dense({ units: labels.length, activation: 'softmax' }));
+
+        model.compile({
+            optimizer: 'adam',
+            loss: 'categoricalCrossentropy',
+            metrics: ['accuracy'],
+        });
+
+        const history: EpochLogs[] = [];
+        const callbacks: (tf.CustomCallback | tf.EarlyStopping)[] = [
+            new tf.CustomCallback({
+                onEpochEnd: async (epoch, logs) => {
+                    const epochLogs: EpochLogs = {
+                        epoch: epoch + 1,
+                        loss: logs?.loss ?? NaN,
+                        accuracy: logs?.acc ?? NaN,
+                        validationLoss: logs?.val_loss,
+                        validationAccuracy: logs?.val_acc,
+                    };
+                    history.push(epochLogs);
+                    onEpochEnd?.(epochLogs);
+                },
+            }),
+        ];
+        if (earlyStopping && validationXs) {
+            callbacks.push(tf.callbacks.earlyStopping({ monitor: 'val_loss', patience: patience }));
+        }
+
+        try {
+            await model.fit(xs, ys, {
+                epochs: epochs,
+                shuffle: true,
+                validationData: validationXs && validationYs ? [validationXs, validationYs] : undefined,
+                callbacks: callbacks,
+            });
+        } finally {
+            xs.dispose();
+            ys.dispose();
+            validationXs?.dispose();
+            validationYs?.dispose();
+        }
+
+        const windowDuration = samples.reduce((total, sample) => total + sample.duration, 0) / samples.length;
+        const classifier = new CustomGestureClassifier(model, labels, windowDuration);
+        return {
+            classifier: classifier,
+            history: history,
+            evaluation: validation.length > 0 ? classifier.evaluate(validation) : null,
+        };
+    }
+
+    /**
+     * Function to compute the confusion matrix and the precision/recall of every class on labelled samples
+     */
+    evaluate(samples: GestureSample[]): Evaluation {
+        const actual = samples.map((sample) => this.labels.indexOf(sample.y));
+        const predicted = samples.map((sample) => this.labels.indexOf(this.predict(sample.x).label));
+        const known = actual.map((c) => c >= 0);
+        const confusionMatrix = computeConfusionMatrix(actual.filter((_, i) => known[i]), predicted.filter((_, i) => known[i]), this.labels.length);
+        return {
+            confusionMatrix: confusionMatrix,
+            classMetrics: computeClassMetrics(confusionMatrix, this.labels),
+            accuracy: computeAccuracy(confusionMatrix),
+        };
+    }
+
+    getInputSize(): number {
+        return this.model.inputs[0].shape[1] as number;
+    }
+
+    /**
+     * Function to get the most probable class of a feature vector
+     */
+    predict(features: number[]): GesturePrediction {
+        const probabilities = tf.tidy(() => (this.model.predict(tf.tensor2d([features])) as tf.Tensor).dataSync());
+        let best = 0;
+        for (let i = 1; i < probabilities.length; i++) {
+            if (probabilities[i] > probabilities[best]) {
+                best = i;
+            }
+        }
+        return { label: this.labels[best], confidence: probabilities[best] };
+    }
+}
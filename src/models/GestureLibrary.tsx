@@ -0,0 +1,161 @@
+import * as tf from '@tensorflow/tfjs';
+import { deleteRecord, getAllRecords, getRecord, putRecord } from '../storage/IndexedDB';
+import { downloadBlob } from '../utils/helpers';
+import { FEATURE_VERSION, getFeatureSize } from '../utils/GestureFeatures';
+import { CustomGestureClassifier, GestureSample } from './CustomGestureClassifier';
+
+const MODEL_SCHEME = "indexeddb://";
+const MODEL_PREFIX = "tune-crafter-gesture-";
+const SELECTED_CLASSIFIER_KEY = "tuneCrafter.selectedClassifier";
+
+export interface GestureDataset {
+    id: string;
+    samples: GestureSample[];
+    featureVersion?: number; // missing in the datasets of the first version
+    createdAt: number;
+}
+
+/**
+ * Function to check that the samples of a dataset have the features the classifiers are trained on now,
+ * an older dataset has to be recorded again
+ */
+export function isCompatibleDataset(dataset: GestureDataset) {
+    const size = getFeatureSize();
+    return (dataset.featureVersion ?? 1) == FEATURE_VERSION && dataset.samples.every((sample) => sample.x.length == size);
+}
+
+function checkClassifier(name: string, classifier: CustomGestureClassifier) {
+    if (classifier.getInputSize() != getFeatureSize()) {
+        throw new Error("Classifier " + name + " was trained on an older version of the gesture features, train it again");
+    }
+}
+
+function checkDataset(dataset: GestureDataset) {
+    if (!isCompatibleDataset(dataset)) {
+        throw new Error("Dataset " + dataset.id + " was recorded with an older version of the gesture features, record it again");
+    }
+}
+
+/**
+ * Persistence of the custom gesture datasets and of the classifiers trained on them.
+ * Datasets are records of the application database, classifiers are saved by tf.io in its own IndexedDB store
+ */
+export class GestureLibrary {
+
+    listDatasets(): Promise<GestureDataset[]> {
+        return getAllRecords<GestureDataset>("gestureDatasets");
+    }
+
+    loadDataset(name: string): Promise<GestureDataset | undefined> {
+        return getRecord<GestureDataset>("gestureDatasets", name);
+    }
+
+    /**
+     * Function to load a dataset to train on, it is rejected when its features are not the current ones
+     */
+    async loadTrainingDataset(name: string): Promise<GestureDataset | undefined> {
+        const dataset = await this.loadDataset(name);
+        if (dataset) {
+            checkDataset(dataset);
+        }
+        return dataset;
+    }
+
+    saveDataset(name: string, samples: GestureSample[]): Promise<void> {
+        return putRecord<GestureDataset>("gestureDatasets", { id: name, samples: samples, featureVersion: FEATURE_VERSION, createdAt: Date.now() });
+    }
+
+    deleteDataset(name: string): Promise<void> {
+        return deleteRecord("gestureDatasets", name);
+    }
+
+    async exportDataset(name: string) {
+        const dataset = await this.loadDataset(name);
+        if (dataset) {
+            downloadBlob(new Blob([JSON.stringify(dataset)], { type: "application/json" }), name + ".dataset.json");
+        }
+    }
+
+    /**
+     * Function to import a dataset exported with exportDataset(), it is stored under the name found in the file
+     */
+    async importDataset(file: File): Promise<GestureDataset> {
+        const dataset = JSON.parse(await file.text()) as GestureDataset;
+        if (!dataset.id || !Array.isArray(dataset.samples)) {
+            throw new Error("Not a gesture dataset: " + file.name);
+        }
+        checkDataset(dataset);
+        await this.saveDataset(dataset.id, dataset.samples);
+        return dataset;
+    }
+
+    async listClassifiers(): Promise<string[]> {
+        const models = await tf.io.listModels();
+        return Object.keys(models)
+            .filter((url) => url.startsWith(MODEL_SCHEME + MODEL_PREFIX))
+            .map((url) => url.substring((MODEL_SCHEME + MODEL_PREFIX).length));
+    }
+
+    async saveClassifier(name: string, classifier: CustomGestureClassifier) {
+        await classifier.model.save(MODEL_SCHEME + MODEL_PREFIX + name);
+    }
+
+    /**
+     * Function to load a stored classifier, it is rejected when it was trained on other features than the current ones
+     */
+    async loadClassifier(name: string): Promise<CustomGestureClassifier> {
+        const model = await tf.loadLayersModel(MODEL_SCHEME + MODEL_PREFIX + name);
+        const classifier = CustomGestureClassifier.fromModel(model);
+        checkClassifier(name, classifier);
+        return classifier;
+    }
+
+    async deleteClassifier(name: string) {
+        await tf.io.removeModel(MODEL_SCHEME + MODEL_PREFIX + name);
+        if (this.getSelectedClassifier() == name) {
+            this.setSelectedClassifier(null);
+        }
+    }
+
+    /**
+     * Function to download the classifier as the model.json and weights.bin pair produced by tf.io
+     */
+    async exportClassifier(name: string) {
+        const classifier = await this.loadClassifier(name);
+        await classifier.model.save("downloads://" + name);
+    }
+
+    /**
+     * Function to import a classifier from its model.json and weights files and store it under the given name
+     */
+    async importClassifier(name: string, files: File[]): Promise<CustomGestureClassifier> {
+        const jsonFile = files.find((file) => file.name.endsWith(".json"));
+        const weightFiles = files.filter((file) => file != jsonFile);
+        if (!jsonFile || weightFiles.length == 0) {
+            throw new Error("A classifier needs its model.json file and its weights file");
+        }
+        const model = await tf.loadLayersModel(tf.io.browserFiles([jsonFile, ...weightFiles]));
+        const classifier = CustomGestureClassifier.fromModel(model);
+        checkClassifier(name, classifier);
+        await this.saveClassifier(name, classifier);
+        return classifier;
+    }
+
+    getSelectedClassifier(): string | null {
+        return localStorage.getItem(SELECTED_CLASSIFIER_KEY);
+    }
+
+    /**
+     * Function to remember the classifier to load at the next startup
+     */
+    setSelectedClassifier(name: string | null) {
+        if (name) {
+            localStorage.setItem(SELECTED_CLASSIFIER_KEY, name);
+        } else {
+            localStorage.removeItem(SELECTED_CLASSIFIER_KEY);
+        }
+    }
+}
+
+const gestureLibrary = new GestureLibrary();
+export default gestureLibrary;
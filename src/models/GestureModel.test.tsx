@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { GestureIntent } from "../intents/GestureIntent";
+import { DEFAULT_CALIBRATION } from "./Calibration";
+import { RIGHT_HANDED_PROFILE } from "./ControlBindings";
+import { GestureModel, RecognizerResults } from "./GestureModel";
+
+type Point = { x: number, y: number, z: number };
+
+/**
+ * Landmarks of an open hand, the wrist to middle finger MCP distance (the hand scale) is 0.3. The index and the
+ * middle finger are side by side, as the closed scissors, the thumb is far from the finger tips
+ */
+function hand(moved: Record<number, [number, number]> = {}): Point[] {
+    const landmarks: Point[] = [{ x: 0.5, y: 0.9, z: 0 }];
+    [0.3, 0.4, 0.5, 0.6, 0.7].forEach((x, finger) => {
+        [0.6, 0.5, 0.4, 0.3].forEach((y) => landmarks.push({ x: finger == 0 ? x - 0.1 : x, y: y, z: 0 }));
+    });
+    Object.entries(moved).forEach(([index, [x, y]]) => {
+        landmarks[Number(index)] = { x: x, y: y, z: 0 };
+    });
+    return landmarks;
+}
+
+function frame(gesture: string, handedness: string, landmarks: Point[]): RecognizerResults {
+    return {
+        gestures: [[{ categoryName: gesture, score: 1 }]],
+        handednesses: [[{ displayName: handedness, score: 1 }]],
+        landmarks: [landmarks],
+    };
+}
+
+// The intents that change the app, without the status texts and the analytics
+function run(model: GestureModel, frames: [RecognizerResults, number, number][]): GestureIntent[] {
+    return frames.flatMap(([results, currentTime, timestamp]) => model.processFrame(results, currentTime, timestamp))
+        .filter((intent) => intent.type != "StatusText" && intent.type != "TrackEvent");
+}
+
+describe("GestureModel.processFrame", () => {
+    const thumbTip = hand()[4];
+    const pinched = hand({ 8: [thumbTip.x, thumbTip.y] });
+    const nearlyPinched = hand({ 8: [thumbTip.x + 0.12, thumbTip.y] }); // 0.4 hand sizes from the thumb
+
+    it.each<[string, Point[], number, number]>([
+        ["a fast pinch at full velocity", hand(), 50, 1],
+        ["a slow pinch softer", nearlyPinched, 100, 0.5], // 4 hand sizes per second, half of the full velocity speed
+    ])("turns %s of the drum hand into a DrumHit", (_, start, duration, velocity) => {
+        const model = new GestureModel(RIGHT_HANDED_PROFILE, DEFAULT_CALIBRATION);
+        const intents = run(model, [
+            [frame("None", "Left", start), 0, 0],
+            [frame("None", "Left", pinched), 0, duration],
+        ]);
+        expect(intents).toHaveLength(1);
+        expect(intents[0]).toMatchObject({ type: "DrumHit", pad: "index" });
+        expect((intents[0] as { velocity: number }).velocity).toBeCloseTo(velocity);
+    });
+
+    it("plays a held pinch once", () => {
+        const model = new GestureModel(RIGHT_HANDED_PROFILE, DEFAULT_CALIBRATION);
+        const intents = run(model, [
+            [frame("None", "Left", pinched), 0, 0],
+            [frame("None", "Left", pinched), 0, 50],
+            [frame("None", "Left", pinched), 0, 100],
+        ]);
+        expect(intents.filter((intent) => intent.type == "DrumHit")).toHaveLength(1);
+    });
+
+    it("ignores a pinch of the other hand", () => {
+        const model = new GestureModel(RIGHT_HANDED_PROFILE, DEFAULT_CALIBRATION);
+        expect(run(model, [[frame("None", "Right", pinched), 0, 0]])).toEqual([]);
+    });
+
+    it("opens and closes the scissors of both hands into a loop", () => {
+        const model = new GestureModel(RIGHT_HANDED_PROFILE, DEFAULT_CALIBRATION);
+        const intents = run(model, [
+            [frame("Victory", "Left", hand()), 1, 1000], // open the left cut, the previous loop is cleared
+            [frame("None", "Left", hand()), 2, 2000], // close it: the loop starts
+            [frame("Victory", "Left", hand()), 3, 3000],
+            [frame("Victory", "Right", hand()), 4, 4000], // open the right cut
+            [frame("None", "Right", hand()), 5, 5000], // close it: the loop ends here
+            [frame("Victory", "Right", hand()), 6, 6000],
+        ]);
+        expect(intents).toEqual([
+            { type: "ClearLoop" },
+            { type: "LoopStart", time: 2 },
+            { type: "LoopEnd", time: 5 },
+        ]);
+    });
+
+    it("confirms play/pause with the fist after the open palm", () => {
+        const model = new GestureModel(RIGHT_HANDED_PROFILE, DEFAULT_CALIBRATION);
+        const intents = run(model, [
+            [frame("Open_Palm", "Right", hand()), 0, 0],
+            [frame("Closed_Fist", "Right", hand()), 0, 100],
+            [frame("Closed_Fist", "Right", hand()), 0, 200],
+        ]);
+        expect(intents).toEqual([{ type: "TogglePlayback" }]);
+    });
+});
@@ -1,8 +1,47 @@
-import ReactGA from 'react-ga4';
 import { PlayPauseState, CutState, IndexState, MiddleState, RingState, PickyState, VolumeState, EffectsState } from "../utils/GesturesFSM";
-import { calculateAngle, closedPoints } from "../utils/helpers";
+import { calculateAngle } from "../utils/helpers";
 import { Coordinates } from "../components/GestureComponent";
-import { AudioManager } from '../AudioManager';
+import { DRUM_PADS, DrumPad } from '../kits/SampleKit';
+import { EFFECT_TYPES, EffectType } from '../effects/EffectsRack';
+import controlBindings, { ControlAction, ControlBindingProfile, ControlState, findProfileBinding, handMatches } from './ControlBindings';
+import { GestureIntent } from '../intents/GestureIntent';
+import calibrations, { HandCalibration, getPinchDistances, touching } from './Calibration';
+
+const PINCH_HISTORY_MS = 120; // frames the approach speed of a finger is measured on
+const FULL_VELOCITY_SPEED = 8; // hand sizes per second of a finger tip hitting the thumb at full velocity
+const MIN_VELOCITY = 0.05;
+
+/**
+ * Finger tip to thumb distances of a hand at a moment, relative to the hand scale
+ */
+interface PinchSample {
+    timestamp: number;
+    distances: number[];
+}
+
+/**
+ * What the thumb rotation controls: the playback speed or the main parameter of an effect of the rack
+ */
+export type EffectTarget = "speed" | EffectType;
+
+const EFFECT_TARGETS: EffectTarget[] = ["speed", ...EFFECT_TYPES];
+
+const EFFECT_TARGET_NAMES: Record<EffectTarget, string> = {
+    speed: "Speed",
+    filter: "Filter",
+    distortion: "Distortion",
+    delay: "Delay",
+    reverb: "Reverb",
+};
+
+/**
+ * The part of the GestureRecognizer results the gestures use, so that a recorded trace can stand in for the recognizer
+ */
+export interface RecognizerResults {
+    gestures: { categoryName: string, score: number }[][];
+    handednesses: { displayName: string, score: number }[][];
+    landmarks: { x: number, y: number, z: number }[][];
+}
 
 export class GestureModel {
     currSPlayPause: PlayPauseState = PlayPauseState.Empty;
@@ -13,211 +52,202 @@ export class GestureModel {
     currSPincky: PickyState = PickyState.Listening;
     currSVolume: VolumeState = VolumeState.Empty;
     currSEffects: EffectsState = EffectsState.Empty;
+    currEffectTarget: number = 0;
+    cutHand: string | undefined = undefined; // hand that opened the scissors of the current loop step
+    effectsHand: string | undefined = undefined; // hand whose rotation controls the effects
 
-    loopRegion: any = undefined;
-    wsRegions: any = undefined;
+    speedValue: number = 1;
+    loopStart: number | undefined = undefined; // seconds of the track
+    loopEnd: number | undefined = undefined;
 
-    soundManager: AudioManager | null = null;
+    bindingProfile: ControlBindingProfile | undefined = undefined; // fixed bindings, e.g. the ones of a replayed trace
+    calibration: HandCalibration | undefined = undefined; // fixed thresholds, same
+    private intents: GestureIntent[] = [];
+    private pinchHistory: Map<string, PinchSample[]> = new Map(); // by handedness
 
-    constructor(soundManager: AudioManager) {
-        this.soundManager = soundManager;
+    constructor(bindingProfile?: ControlBindingProfile, calibration?: HandCalibration) {
+        this.bindingProfile = bindingProfile;
+        this.calibration = calibration;
     }
-    
-    haveRegions() {
-        return this.wsRegions != undefined;
+
+    getBindingProfile() {
+        return this.bindingProfile ?? controlBindings.getActiveProfile();
+    }
+
+    /**
+     * Function to get the touch thresholds of the performer, saved with the name of their binding profile
+     */
+    getCalibration() {
+        return this.calibration ?? calibrations.get(this.getBindingProfile().name);
+    }
+
+    private emit(intent: GestureIntent) {
+        this.intents.push(intent);
+    }
+
+    private track(label: string) {
+        this.emit({ type: "TrackEvent", label: label });
     }
 
-    setRegions(regions: any) {
-        this.wsRegions = regions;
+    /**
+     * Function to run the state machine on the recognizer results of one frame, returns what the gestures ask the app to do.
+     * currentTime is the position of the track, for the loop points, timestamp the time of the frame in ms, for the drum velocity
+     */
+    processFrame(results: RecognizerResults, currentTime: number, timestamp: number = Date.now()): GestureIntent[] {
+        this.intents = [];
+        if (results.gestures.length == 0) {
+            this.emit({ type: "StatusText", text: "🙌" });
+        }
+        for (let i = 0; i < results.gestures.length; i++) {
+            const categoryName = results.gestures[i][0].categoryName;
+            const handedness = results.handednesses[i][0].displayName;
+            const landmarks = results.landmarks[i];
+
+            this.updateFSMStates(categoryName, handedness, landmarks);
+            const cutText = this.getCutText();
+            if (cutText) {
+                this.emit({ type: "StatusText", text: cutText });
+            }
+            this.handleDrums(handedness, landmarks, timestamp);
+            if (this.runPlayPause()) {
+                this.emit({ type: "TogglePlayback" });
+            }
+            this.handleEffects(handedness, landmarks);
+            this.handleLoopRegions(currentTime);
+            if (this.isVolumeStarted()) {
+                this.emit({ type: "SetVolume", volume: 1 - landmarks[8].x });
+            }
+        }
+        const intents = this.intents;
+        this.intents = [];
+        return intents;
+    }
+
+    /**
+     * Function to move the control states on a gesture of a hand, following the binding of the active profile:
+     * the states the binding cancels are reset, then the state of its action is entered
+     */
+    updateFSMStates(categoryName: string, handedness: string, landmarks: any) {
+        if (categoryName == "None") {
+            this.closeCut(handedness, landmarks);
+        }
+        const binding = findProfileBinding(this.getBindingProfile(), categoryName, handedness);
+        if (binding == undefined) {
+            return;
+        }
+        this.cancelStates(binding.cancels);
+        this.enterState(binding.action, handedness);
     }
 
-    updateFSMStates(categoryName: string, handedness: string, landmarks: any, current_gesture: any, wsRegions: any) {
-        switch (categoryName) {
-            case "None":
-                if (this.currSCut == CutState.StartCuttingLeft && handedness == "Left" && closedPoints(landmarks[6], landmarks[10], 0.1) && closedPoints(landmarks[7], landmarks[11], 0.1) && closedPoints(landmarks[8], landmarks[12], 0.1)) {
-                    this.currSCut = CutState.ClosedCutLeft;
-                    ReactGA.event({
-                        category: 'User Interaction',
-                        action: 'gesture',   
-                        label: 'ClosedCutLeft',
-                    });
-                } else {
-                    if (this.currSCut == CutState.StartCuttingRight && handedness == "Right" && closedPoints(landmarks[6], landmarks[10], 0.1) && closedPoints(landmarks[7], landmarks[11], 0.1) && closedPoints(landmarks[8], landmarks[12], 0.1)) {
-                        this.currSCut = CutState.ClosedCutRight;
-                        ReactGA.event({
-                            category: 'User Interaction',
-                            action: 'gesture',   
-                            label: 'ClosedCutRight',
-                        });
+    cancelStates(states: ControlState[]) {
+        states.forEach((state) => {
+            switch (state) {
+                case "playPause":
+                    this.currSPlayPause = PlayPauseState.Empty;
+                    break;
+                case "cut":
+                    if (this.currSCut != CutState.Empty) {
+                        this.emit({ type: "ClearLoop" });
+                        this.currSCut = CutState.Empty;
+                        this.loopStart = undefined;
                     }
-                }
-                this.currSVolume = VolumeState.Empty;
-                this.currSEffects = EffectsState.Empty;
+                    break;
+                case "volume":
+                    this.currSVolume = VolumeState.Empty;
+                    break;
+                case "drums":
+                    this.currSIndex = IndexState.Stopping;
+                    this.currSMiddle = MiddleState.Stopping;
+                    this.currSRing = RingState.Stopping;
+                    this.currSPincky = PickyState.Stopping;
+                    break;
+                case "effects":
+                    this.currSEffects = EffectsState.Empty;
+                    break;
+            }
+        });
+    }
+
+    enterState(action: ControlAction, handedness: string) {
+        switch (action) {
+            case "playPauseStart":
+                this.currSPlayPause = PlayPauseState.Started;
+                this.emit({ type: "StatusText", text: "🖐️ + ✊ → ⏯️" });
+                this.track('PlayPauseStarted');
                 break;
-            case "Pointing_Up":
-                this.currSPlayPause = PlayPauseState.Empty;
-                if (this.currSCut != CutState.Empty) {
-                    wsRegions.clearRegions();
-                    this.currSCut = CutState.Empty;
-                }
-                this.currSIndex = IndexState.Stopping;
-                this.currSMiddle = MiddleState.Stopping;
-                this.currSRing = RingState.Stopping;
-                this.currSPincky = PickyState.Stopping;
-                this.currSEffects = EffectsState.Empty;
-                if (handedness == "Right") {
-                    this.currSVolume = VolumeState.Started;
-                    ReactGA.event({
-                        category: 'User Interaction',
-                        action: 'gesture',   
-                        label: 'VolumeStarted',
-                    });
-                    current_gesture.innerText = "👆 + ↔️ → Down 🔈 ↔️ 🔊 Up";
+            case "playPauseConfirm":
+                if (this.currSPlayPause == PlayPauseState.Started) {
+                    this.currSPlayPause = PlayPauseState.Completed;
+                    this.emit({ type: "StatusText", text: "⏯️ ✅" });
+                    this.track('PlayPauseCompleted');
                 }
                 break;
-            case "Open_Palm":
-                if (handedness == "Right") {
-                    this.currSPlayPause = PlayPauseState.Started;
-                    current_gesture.innerText = "🖐️ + ✊ → ⏯️";
-                    ReactGA.event({
-                        category: 'User Interaction',
-                        action: 'gesture',   
-                        label: 'PlayPauseStarted',
-                    });
-                }
-                if (this.currSCut != CutState.Empty) {
-                    wsRegions.clearRegions();
-                    this.currSCut = CutState.Empty;
-                }
-                this.currSVolume = VolumeState.Empty;
-                this.currSIndex = IndexState.Stopping;
-                this.currSMiddle = MiddleState.Stopping;
-                this.currSRing = RingState.Stopping;
-                this.currSPincky = PickyState.Stopping;
-                this.currSEffects = EffectsState.Empty;
+            case "volume":
+                this.currSVolume = VolumeState.Started;
+                this.track('VolumeStarted');
+                this.emit({ type: "StatusText", text: "👆 + ↔️ → Down 🔈 ↔️ 🔊 Up" });
                 break;
-            case "Closed_Fist":
-                if (handedness == "Right") {
-
-                    if (this.currSPlayPause == PlayPauseState.Started) {
-                        this.currSPlayPause = PlayPauseState.Completed;
-                        current_gesture.innerText = "⏯️ ✅";
-                        ReactGA.event({
-                            category: 'User Interaction',
-                            action: 'gesture',   
-                            label: 'PlayPauseCompleted',
-                        });
-                    }
-
-                }
-                if (this.currSCut != CutState.Empty) {
-                    wsRegions.clearRegions();
-                    this.currSCut = CutState.Empty;
+            case "effects":
+                this.currSEffects = EffectsState.StartPuttingEffects;
+                this.effectsHand = handedness;
+                this.emit({ type: "StatusText", text: "👍 + 🔄 → " + this.getEffectTargetName() });
+                this.track('StartPuttingEffects');
+                break;
+            case "effectSelect":
+                // Pick the next effect only once per gesture, holding the gesture keeps the selection
+                if (this.currSEffects != EffectsState.SelectingEffect) {
+                    this.currEffectTarget = (this.currEffectTarget + 1) % EFFECT_TARGETS.length;
+                    this.track('SelectingEffect');
                 }
-                this.currSVolume = VolumeState.Empty;
-                this.currSIndex = IndexState.Stopping;
-                this.currSMiddle = MiddleState.Stopping;
-                this.currSRing = RingState.Stopping;
-                this.currSPincky = PickyState.Stopping;
-                this.currSEffects = EffectsState.Empty;
+                this.currSEffects = EffectsState.SelectingEffect;
+                this.emit({ type: "StatusText", text: "👎 → Effect: " + this.getEffectTargetName() });
                 break;
-            case "Victory":
-                this.currSPlayPause = PlayPauseState.Empty;
-                this.currSVolume = VolumeState.Empty;
-                this.currSIndex = IndexState.Stopping;
-                this.currSMiddle = MiddleState.Stopping;
-                this.currSRing = RingState.Stopping;
-                this.currSPincky = PickyState.Stopping;
-                this.currSEffects = EffectsState.Empty;
+            case "loopStart":
                 switch (this.currSCut) {
                     case CutState.Empty:
-                        if (handedness == "Left") {
-                            this.currSCut = CutState.StartCuttingLeft;
-                            if (wsRegions != undefined) {
-                                wsRegions.clearRegions();
-                            }
-                            this.loopRegion = undefined;
-                        }
+                        this.currSCut = CutState.StartCuttingLeft;
+                        this.cutHand = handedness;
+                        this.emit({ type: "ClearLoop" });
+                        this.loopStart = undefined;
+                        this.loopEnd = undefined;
                         break;
                     case CutState.ClosedCutLeft:
-                        if (handedness == "Left") {
-                            this.currSCut = CutState.CuttedLeft;
-                            ReactGA.event({
-                                category: 'User Interaction',
-                                action: 'gesture',   
-                                label: 'CuttedLeft',
-                            });
-                        }
+                        this.currSCut = CutState.CuttedLeft;
+                        this.track('CuttedLeft');
                         break;
+                }
+                break;
+            case "loopEnd":
+                switch (this.currSCut) {
                     case CutState.CuttedLeft:
-                        if (handedness == "Right") {
-                            this.currSCut = CutState.StartCuttingRight;
-                            ReactGA.event({
-                                category: 'User Interaction',
-                                action: 'gesture',   
-                                label: 'StartCuttingRight',
-                            });
-                        }
+                        this.currSCut = CutState.StartCuttingRight;
+                        this.cutHand = handedness;
+                        this.track('StartCuttingRight');
                         break;
                     case CutState.ClosedCutRight:
-                        if (handedness == "Right") {
-                            this.currSCut = CutState.CuttedCompleted;
-                            ReactGA.event({
-                                category: 'User Interaction',
-                                action: 'gesture',   
-                                label: 'CuttedCompleted',
-                            });
-                        }
+                        this.currSCut = CutState.CuttedCompleted;
+                        this.track('CuttedCompleted');
                         break;
                 }
                 break;
-            case "Thumb_Up":
-                this.currSPlayPause = PlayPauseState.Empty;
-                if (this.currSCut != CutState.Empty) {
-                    wsRegions.clearRegions();
-                    this.currSCut = CutState.Empty;
-                }
-                this.currSVolume = VolumeState.Empty;
-                this.currSIndex = IndexState.Stopping;
-                this.currSMiddle = MiddleState.Stopping;
-                this.currSRing = RingState.Stopping;
-                this.currSPincky = PickyState.Stopping;
-                if (handedness == "Right") {
-                    this.currSEffects = EffectsState.StartPuttingEffects;
-                    current_gesture.innerText = "👍 + 🔄 → Speed";
-                    ReactGA.event({
-                        category: 'User Interaction',
-                        action: 'gesture',   
-                        label: 'StartPuttingEffects',
-                    });
-                }
-                break;
-            case "Thumb_Down":
-                this.currSPlayPause = PlayPauseState.Empty;
-                if (this.currSCut != CutState.Empty) {
-                    wsRegions.clearRegions();
-                    this.currSCut = CutState.Empty;
-                }
-                this.currSVolume = VolumeState.Empty;
-                this.currSIndex = IndexState.Stopping;
-                this.currSMiddle = MiddleState.Stopping;
-                this.currSRing = RingState.Stopping;
-                this.currSPincky = PickyState.Stopping;
-                this.currSEffects = EffectsState.Empty;
-                break;
-            case "ILoveYou":
-                this.currSPlayPause = PlayPauseState.Empty;
-                if (this.currSCut != CutState.Empty) {
-                    wsRegions.clearRegions();
-                    this.currSCut = CutState.Empty;
-                }
-                this.currSVolume = VolumeState.Empty;
-                this.currSIndex = IndexState.Stopping;
-                this.currSMiddle = MiddleState.Stopping;
-                this.currSRing = RingState.Stopping;
-                this.currSPincky = PickyState.Stopping;
-                this.currSEffects = EffectsState.Empty;
-                break;
+        }
+    }
+
+    /**
+     * Function to detect the scissors closing (index, middle finger together, no gesture recognized) with the hand
+     * that opened them for the loop start or the loop end
+     */
+    closeCut(handedness: string, landmarks: any) {
+        const cutThreshold = this.getCalibration().cutThreshold;
+        if (handedness != this.cutHand || !(touching(landmarks, 6, 10, cutThreshold) && touching(landmarks, 7, 11, cutThreshold) && touching(landmarks, 8, 12, cutThreshold))) {
+            return;
+        }
+        if (this.currSCut == CutState.StartCuttingLeft) {
+            this.currSCut = CutState.ClosedCutLeft;
+            this.track('ClosedCutLeft');
+        } else if (this.currSCut == CutState.StartCuttingRight) {
+            this.currSCut = CutState.ClosedCutRight;
+            this.track('ClosedCutRight');
         }
     }
 
@@ -237,8 +267,9 @@ export class GestureModel {
         return undefined;
     }
 
-    getDrumSound(landmarks: any) {
-        if (closedPoints(landmarks[8], landmarks[4], 0.05)) {
+    getDrumSound(landmarks: any): DrumPad | undefined {
+        const pinchThreshold = this.getCalibration().pinchThreshold;
+        if (touching(landmarks, 8, 4, pinchThreshold)) {
             if (this.currSIndex == IndexState.Listening) {
                 // Play the audio in the background
                 this.currSIndex = IndexState.Stopping;
@@ -249,7 +280,7 @@ export class GestureModel {
         }
 
         //Middle finger action
-        if (closedPoints(landmarks[12], landmarks[4], 0.05)) {
+        if (touching(landmarks, 12, 4, pinchThreshold)) {
             if (this.currSMiddle == MiddleState.Listening) {
                 // Play the audio in the background
                 this.currSMiddle = MiddleState.Stopping;
@@ -260,7 +291,7 @@ export class GestureModel {
         }
 
         //Ring finger action
-        if (closedPoints(landmarks[16], landmarks[4], 0.05)) {
+        if (touching(landmarks, 16, 4, pinchThreshold)) {
             if (this.currSRing == RingState.Listening) {
                 // Play the audio in the background
                 this.currSRing = RingState.Stopping;
@@ -271,7 +302,7 @@ export class GestureModel {
         }
 
         //Pinky Finger action
-        if (closedPoints(landmarks[20], landmarks[4], 0.05)) {
+        if (touching(landmarks, 20, 4, pinchThreshold)) {
             if (this.currSPincky == PickyState.Listening) {
                 // Play sounds
                 this.currSPincky = PickyState.Stopping;
@@ -291,53 +322,129 @@ export class GestureModel {
         return false;
     }
 
-    getSpeedText(landmarks: any, handedness: any) {
-        if (this.currSEffects == EffectsState.StartPuttingEffects && handedness == "Right") {
+    getEffectTarget(): EffectTarget {
+        return EFFECT_TARGETS[this.currEffectTarget];
+    }
+
+    getEffectTargetName() {
+        return EFFECT_TARGET_NAMES[this.getEffectTarget()];
+    }
+
+    handleDrums(handedness: string, landmarks: any, timestamp: number) {
+        if (this.isDrumHand(handedness)) {
+            this.recordPinch(handedness, landmarks, timestamp);
+            const pad = this.getDrumSound(landmarks);
+            if (pad) {
+                this.track(pad);
+                this.emit({ type: "DrumHit", pad: pad, velocity: this.getVelocity(handedness, DRUM_PADS.indexOf(pad)) });
+                this.emit({ type: "StatusText", text: "🥁 ✅" });
+            }
+        }
+    }
+
+    private recordPinch(handedness: string, landmarks: any, timestamp: number) {
+        const history = (this.pinchHistory.get(handedness) ?? []).filter((sample) => timestamp - sample.timestamp <= PINCH_HISTORY_MS);
+        history.push({ timestamp: timestamp, distances: getPinchDistances(landmarks) });
+        this.pinchHistory.set(handedness, history);
+    }
+
+    /**
+     * Function to estimate the velocity (0..1) of a hit from the fastest approach of the finger tip to the thumb over
+     * the last frames. Full velocity when there is not enough history to measure it
+     */
+    getVelocity(handedness: string, finger: number) {
+        const history = this.pinchHistory.get(handedness) ?? [];
+        if (history.length < 2) {
+            return 1;
+        }
+        let speed = 0;
+        for (let i = 1; i < history.length; i++) {
+            const elapsed = (history[i].timestamp - history[i - 1].timestamp) / 1000;
+            if (elapsed > 0) {
+                speed = Math.max(speed, (history[i - 1].distances[finger] - history[i].distances[finger]) / elapsed);
+            }
+        }
+        return Math.min(1, Math.max(MIN_VELOCITY, speed / FULL_VELOCITY_SPEED));
+    }
+
+    handleEffects(handedness: string, landmarks: any) {
+        if (this.currSEffects == EffectsState.StartPuttingEffects && handedness == this.effectsHand) {
             //Manage effects
             var currentThumbUpCoordinates = { x: landmarks[4].x, y: landmarks[4].y };
             var referencePoint = { x: landmarks[0].x, y: landmarks[0].y }
             this.updateEffectsValue(currentThumbUpCoordinates!, referencePoint!);
-            return "👍 + 🔄 → Speed: " + this.soundManager?.getSpeedValue().toFixed(2) + "x";
         }
-        return undefined;
     }
 
     /**
      * Function to update the effect factor based on the angle taken by the Thumb_Up gesture, specifically the angle from the 
-     * segment between the thumb tip and the wrist (landmarks 4 and 0 of the model scheleton)
+     * segment between the thumb tip and the wrist (landmarks 4 and 0 of the model scheleton).
+     * The speed uses the angle as it is, the effects map the same 0.5-2 range onto their 0-1 parameter
      */
     updateEffectsValue(point1: Coordinates, point2: Coordinates) {
         var angle: number = 0;
         angle = calculateAngle(point1, point2);
 
-        this.soundManager?.setSpeedValue(angle/100);
+        const target = this.getEffectTarget();
+        if (target == "speed") {
+            this.speedValue = Math.min(2, Math.max(0.5, angle/100));
+            this.emit({ type: "SetRate", rate: this.speedValue });
+            this.emit({ type: "StatusText", text: "👍 + 🔄 → Speed: " + this.speedValue.toFixed(2) + "x" });
+        } else {
+            // The status is written by the adapter, only the effect knows the unit of its amount
+            this.emit({ type: "SetEffect", effect: target, amount: Math.min(1, Math.max(0, (angle/100 - 0.5) / 1.5)) });
+        }
     }
 
     handleLoopRegions(currentTime: number) {
-        if (this.currSCut == CutState.ClosedCutLeft && this.loopRegion == undefined) {
-            this.loopRegion = {
-                start: currentTime,
-                color: "#e0a9e06e",
-                content: 'Start Loop',
-                loop: false,
-                drag: false,
-                resize: false,
-            };
-            this.wsRegions.addRegion(this.loopRegion);
+        if (this.currSCut == CutState.ClosedCutLeft && this.loopStart == undefined) {
+            this.loopStart = currentTime;
+            this.emit({ type: "LoopStart", time: currentTime });
         }
 
-        if (this.currSCut == CutState.ClosedCutRight) {
-            this.loopRegion.end = currentTime;
-            this.loopRegion.loop = true;
+        if (this.currSCut == CutState.ClosedCutRight && this.loopStart != undefined) {
+            this.loopEnd = currentTime;
         }
 
         if (this.currSCut == CutState.CuttedCompleted) {
-            this.wsRegions.clearRegions();
-            this.wsRegions.addRegion(this.loopRegion);
+            if (this.loopStart != undefined && this.loopEnd != undefined && this.loopEnd > this.loopStart) {
+                this.emit({ type: "LoopEnd", time: this.loopEnd });
+            }
             this.currSCut = CutState.Empty;
         }
     }
 
+    /**
+     * Function to start a loop at the given time without going through the cut gestures (e.g. from a custom gesture)
+     */
+    setLoopStart(time: number): GestureIntent[] {
+        this.loopStart = time;
+        this.loopEnd = undefined;
+        return [{ type: "LoopStart", time: time }];
+    }
+
+    /**
+     * Function to close the loop started with setLoopStart(), nothing to do if there is no loop to close
+     */
+    setLoopEnd(time: number): GestureIntent[] {
+        if (this.loopStart == undefined || time <= this.loopStart) {
+            return [];
+        }
+        this.loopEnd = time;
+        return [{ type: "LoopEnd", time: time }];
+    }
+
+    clearLoop(): GestureIntent[] {
+        this.loopStart = undefined;
+        this.loopEnd = undefined;
+        this.currSCut = CutState.Empty;
+        return [{ type: "ClearLoop" }];
+    }
+
+    isDrumHand(handedness: string) {
+        return handMatches(this.getBindingProfile().drumHand, handedness);
+    }
+
     isVolumeStarted() {
         return this.currSVolume == VolumeState.Started;
     }
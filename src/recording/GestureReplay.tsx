@@ -0,0 +1,65 @@
+import { GestureModel } from "../models/GestureModel";
+import { GestureIntent } from "../intents/GestureIntent";
+import { GestureTrace } from "./GestureTrace";
+import { DEFAULT_CALIBRATION } from "../models/Calibration";
+
+/**
+ * Intent of a replayed trace, time is in ms from the first frame
+ */
+export interface ReplayAction {
+    time: number;
+    intent: GestureIntent;
+}
+
+export interface ReplayOptions {
+    includeStatus: boolean; // also emit the status messages of the current gesture element
+}
+
+const DEFAULT_REPLAY_OPTIONS: ReplayOptions = {
+    includeStatus: false,
+};
+
+/**
+ * Function to feed a trace into a fresh GestureModel, without a camera nor the MediaPipe model, and get the intents
+ * it emits. Consecutive identical volume, speed and status values are emitted once, the analytics are left out
+ */
+export function replayTrace(trace: GestureTrace, options: Partial<ReplayOptions> = {}): ReplayAction[] {
+    const { includeStatus } = { ...DEFAULT_REPLAY_OPTIONS, ...options };
+    const actions: ReplayAction[] = [];
+    const startTime = trace.frames.length > 0 ? trace.frames[0].timestamp : 0;
+    const lastValues: Map<string, any> = new Map();
+
+    // Value of the intents that repeat at every frame while the gesture is held
+    const valueOf = (intent: GestureIntent) => {
+        switch (intent.type) {
+            case "SetVolume":
+                return intent.volume;
+            case "SetRate":
+                return intent.rate;
+            case "SetEffect":
+                return intent.effect + intent.amount;
+            case "StatusText":
+                return intent.text;
+        }
+        return undefined;
+    };
+
+    const model = new GestureModel(trace.profile, trace.calibration ?? DEFAULT_CALIBRATION);
+    trace.frames.forEach((frame) => {
+        const time = frame.timestamp - startTime;
+        model.processFrame(frame, frame.playbackTime, frame.timestamp).forEach((intent) => {
+            if (intent.type == "TrackEvent" || (intent.type == "StatusText" && !includeStatus)) {
+                return;
+            }
+            const value = valueOf(intent);
+            if (value != undefined) {
+                if (lastValues.get(intent.type) === value) {
+                    return;
+                }
+                lastValues.set(intent.type, value);
+            }
+            actions.push({ time: time, intent: intent });
+        });
+    });
+    return actions;
+}
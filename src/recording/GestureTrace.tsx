@@ -0,0 +1,101 @@
+import controlBindings, { ControlBindingProfile } from "../models/ControlBindings";
+import { RecognizerResults } from "../models/GestureModel";
+import calibrations, { HandCalibration } from "../models/Calibration";
+
+export const TRACE_VERSION = 1;
+
+export interface TraceFrame extends RecognizerResults {
+    timestamp: number; // ms, as given to the recognizer
+    playbackTime: number; // seconds, position of the waveform when the frame was recognized
+}
+
+/**
+ * Per-frame GestureRecognizer results of a session, with the binding profile in use so that the replay is deterministic
+ */
+export interface GestureTrace {
+    version: number;
+    createdAt: string;
+    profile: ControlBindingProfile;
+    calibration?: HandCalibration; // missing in the traces recorded before the calibration
+    frames: TraceFrame[];
+}
+
+/**
+ * Function to copy the fields of the recognizer results the gestures use, the MediaPipe objects carry more
+ */
+export function serializeResults(results: any): RecognizerResults {
+    return {
+        gestures: (results?.gestures ?? []).map((categories: any[]) => categories.map((category) => ({ categoryName: category.categoryName, score: category.score }))),
+        handednesses: (results?.handednesses ?? []).map((categories: any[]) => categories.map((category) => ({ displayName: category.displayName, score: category.score }))),
+        landmarks: (results?.landmarks ?? []).map((landmarks: any[]) => landmarks.map((landmark) => ({ x: landmark.x, y: landmark.y, z: landmark.z }))),
+    };
+}
+
+/**
+ * Function to read a trace file, throws if it is not a trace of a supported version
+ */
+export function parseTrace(text: string): GestureTrace {
+    const trace = JSON.parse(text) as GestureTrace;
+    if (trace.version != TRACE_VERSION || !Array.isArray(trace.frames) || !trace.profile) {
+        throw new Error("Not a gesture trace (version " + TRACE_VERSION + ")");
+    }
+    return trace;
+}
+
+/**
+ * Records the recognizer results of every webcam frame between start() and stop()
+ */
+export class GestureTraceRecorder {
+    private frames: TraceFrame[] = [];
+    private profile: ControlBindingProfile | null = null;
+    private calibration: HandCalibration | undefined = undefined;
+    private recording: boolean = false;
+    private listeners: any = [];
+
+    addListener(listener: any) {
+        this.listeners.push(listener);
+    }
+
+    removeListener(listener: any) {
+        this.listeners = this.listeners.filter((l: any) => l !== listener);
+    }
+
+    fireListeners() {
+        this.listeners.forEach((listener: any) => listener());
+    }
+
+    isRecording() {
+        return this.recording;
+    }
+
+    getFrameCount() {
+        return this.frames.length;
+    }
+
+    start() {
+        this.frames = [];
+        this.profile = controlBindings.getActiveProfile();
+        this.calibration = calibrations.get(this.profile.name);
+        this.recording = true;
+        this.fireListeners();
+    }
+
+    stop(): GestureTrace {
+        this.recording = false;
+        this.fireListeners();
+        return {
+            version: TRACE_VERSION,
+            createdAt: new Date().toISOString(),
+            profile: this.profile ?? controlBindings.getActiveProfile(),
+            calibration: this.calibration,
+            frames: this.frames,
+        };
+    }
+
+    capture(results: any, timestamp: number, playbackTime: number) {
+        if (!this.recording) {
+            return;
+        }
+        this.frames.push({ timestamp: timestamp, playbackTime: playbackTime, ...serializeResults(results) });
+    }
+}
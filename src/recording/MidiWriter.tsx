@@ -0,0 +1,92 @@
+const TICKS_PER_QUARTER = 480;
+
+export interface MidiNote {
+    time: number; // seconds from the start of the recording
+    duration: number; // seconds
+    note: number;
+    velocity: number;
+    channel: number;
+}
+
+export interface MidiTrack {
+    name: string;
+    notes: MidiNote[];
+}
+
+interface MidiEvent {
+    tick: number;
+    data: number[];
+}
+
+/**
+ * Function to write a Type-1 Standard MIDI File: a conductor track with the tempo followed by one track per entry
+ */
+export function encodeMidi(tracks: MidiTrack[], bpm: number): Blob {
+    const secondsToTicks = (seconds: number) => Math.round(seconds * (bpm / 60) * TICKS_PER_QUARTER);
+
+    const conductor: MidiEvent[] = [
+        { tick: 0, data: [0xFF, 0x51, 0x03, ...toBytes(Math.round(60000000 / bpm), 3)] }, // Tempo
+        { tick: 0, data: [0xFF, 0x58, 0x04, 0x04, 0x02, 0x18, 0x08] }, // 4/4
+    ];
+    const chunks = [createTrackChunk(conductor)];
+
+    tracks.forEach((track) => {
+        const events: MidiEvent[] = [{ tick: 0, data: [0xFF, 0x03, ...variableLength(track.name.length), ...Array.from(track.name, (c) => c.charCodeAt(0) & 0x7F)] }];
+        track.notes.forEach((note) => {
+            const channel = note.channel & 0x0F;
+            const velocity = Math.max(1, Math.min(127, Math.round(note.velocity)));
+            const start = secondsToTicks(note.time);
+            const end = Math.max(start + 1, secondsToTicks(note.time + note.duration));
+            events.push({ tick: start, data: [0x90 | channel, note.note & 0x7F, velocity] });
+            events.push({ tick: end, data: [0x80 | channel, note.note & 0x7F, 0] });
+        });
+        chunks.push(createTrackChunk(events));
+    });
+
+    const header = [
+        ...stringBytes("MThd"), ...toBytes(6, 4),
+        ...toBytes(1, 2), // Format 1
+        ...toBytes(chunks.length, 2),
+        ...toBytes(TICKS_PER_QUARTER, 2),
+    ];
+
+    return new Blob([new Uint8Array([...header, ...chunks.flat()])], { type: "audio/midi" });
+}
+
+/**
+ * Function to build an MTrk chunk. Events at the same tick are written meta events first, then note-offs, then note-ons
+ */
+function createTrackChunk(events: MidiEvent[]) {
+    const priority = (event: MidiEvent) => event.data[0] == 0xFF ? 0 : (event.data[0] & 0xF0) == 0x80 ? 1 : 2;
+    const sorted = [...events].sort((a, b) => a.tick - b.tick || priority(a) - priority(b));
+    const bytes: number[] = [];
+    let lastTick = 0;
+    sorted.forEach((event) => {
+        bytes.push(...variableLength(event.tick - lastTick), ...event.data);
+        lastTick = event.tick;
+    });
+    bytes.push(0x00, 0xFF, 0x2F, 0x00); // End of track
+    return [...stringBytes("MTrk"), ...toBytes(bytes.length, 4), ...bytes];
+}
+
+function variableLength(value: number) {
+    const bytes = [value & 0x7F];
+    value >>= 7;
+    while (value > 0) {
+        bytes.unshift((value & 0x7F) | 0x80);
+        value >>= 7;
+    }
+    return bytes;
+}
+
+function toBytes(value: number, length: number) {
+    const bytes: number[] = [];
+    for (let i = length - 1; i >= 0; i--) {
+        bytes.push((value >> (8 * i)) & 0xFF);
+    }
+    return bytes;
+}
+
+function stringBytes(text: string) {
+    return Array.from(text, (c) => c.charCodeAt(0));
+}
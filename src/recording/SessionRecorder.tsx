@@ -0,0 +1,183 @@
+import { AudioManager, DrumHit } from "../AudioManager";
+import { Mode } from "../CurrentMode";
+import { DrumPad } from "../kits/SampleKit";
+import kitRegistry from "../kits/KitRegistry";
+import { toMidiVelocity } from "../kits/VelocityCurve";
+import { encodeWav } from "./WavEncoder";
+import { encodeMidi, MidiTrack } from "./MidiWriter";
+
+const PROCESSOR_NAME = "session-recorder-processor";
+
+// Copies every input block to the main thread, the output stays silent. While nothing plays the input has no channels,
+// a silent block is sent then, so the recording keeps the time of the audio context the hits are timed with
+const PROCESSOR_SOURCE = `
+class SessionRecorderProcessor extends AudioWorkletProcessor {
+    process(inputs, outputs) {
+        const input = inputs[0];
+        if (input && input.length > 0) {
+            this.port.postMessage(input.map((channel) => channel.slice(0)));
+        } else {
+            const length = outputs[0] && outputs[0][0] ? outputs[0][0].length : 128;
+            this.port.postMessage([new Float32Array(length), new Float32Array(length)]);
+        }
+        return true;
+    }
+}
+registerProcessor("${PROCESSOR_NAME}", SessionRecorderProcessor);
+`;
+
+export interface RecordedHit {
+    pad: DrumPad;
+    kit: Mode;
+    time: number; // seconds from the start of the recording
+    velocity: number; // 0..1
+}
+
+const loadedContexts: WeakSet<BaseAudioContext> = new WeakSet();
+
+/**
+ * Records the mixed output of the AudioManager (waveform track and samples) as PCM, together with the drum hits
+ * so that the same performance can be exported as WAV and as MIDI
+ */
+export class SessionRecorder {
+    private soundManager: AudioManager;
+    private recorderNode: AudioWorkletNode | null = null;
+    private chunks: Float32Array[][] = [];
+    private hits: RecordedHit[] = [];
+    private startTime: number = 0;
+    private duration: number = 0;
+    private sampleRate: number = 44100;
+    private recording: boolean = false;
+    private listeners: any = [];
+
+    constructor(soundManager: AudioManager) {
+        this.soundManager = soundManager;
+    }
+
+    addListener(listener: any) {
+        this.listeners.push(listener);
+    }
+
+    removeListener(listener: any) {
+        this.listeners = this.listeners.filter((l: any) => l !== listener);
+    }
+
+    fireListeners() {
+        this.listeners.forEach((listener: any) => listener());
+    }
+
+    isRecording() {
+        return this.recording;
+    }
+
+    hasRecording() {
+        return !this.recording && this.chunks.length > 0;
+    }
+
+    /**
+     * Function to get the length of the recording in seconds, it keeps growing while recording
+     */
+    getDuration() {
+        const audioContext = this.soundManager.getAudioContext();
+        if (this.recording && audioContext) {
+            return audioContext.currentTime - this.startTime;
+        }
+        return this.duration;
+    }
+
+    getHits() {
+        return this.hits;
+    }
+
+    async start() {
+        const audioContext = this.soundManager.getAudioContext();
+        const outputNode = this.soundManager.getOutputNode();
+        if (!audioContext || !outputNode || this.recording) {
+            return;
+        }
+
+        if (!loadedContexts.has(audioContext)) {
+            const moduleUrl = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: "application/javascript" }));
+            await audioContext.audioWorklet.addModule(moduleUrl);
+            URL.revokeObjectURL(moduleUrl);
+            loadedContexts.add(audioContext);
+        }
+
+        this.chunks = [];
+        this.hits = [];
+        this.sampleRate = audioContext.sampleRate;
+        this.recorderNode = new AudioWorkletNode(audioContext, PROCESSOR_NAME, {
+            channelCount: 2,
+            channelCountMode: "explicit",
+            channelInterpretation: "speakers",
+        });
+        this.recorderNode.port.onmessage = (event: MessageEvent) => {
+            this.chunks.push(event.data);
+        };
+        outputNode.connect(this.recorderNode);
+        // The node is only processed while it is part of a graph reaching the destination
+        this.recorderNode.connect(audioContext.destination);
+
+        this.startTime = audioContext.currentTime;
+        this.recording = true;
+        this.soundManager.addHitListener(this.onHit);
+        this.fireListeners();
+    }
+
+    stop() {
+        if (!this.recording) {
+            return;
+        }
+        this.duration = this.getDuration();
+        this.recording = false;
+        this.soundManager.removeHitListener(this.onHit);
+        if (this.recorderNode) {
+            this.recorderNode.port.onmessage = null;
+            this.recorderNode.disconnect();
+            this.soundManager.getOutputNode()?.disconnect(this.recorderNode);
+            this.recorderNode = null;
+        }
+        this.fireListeners();
+    }
+
+    private onHit = (hit: DrumHit) => {
+        this.hits.push({ pad: hit.pad, kit: hit.kit, time: Math.max(0, hit.time - this.startTime), velocity: hit.velocity });
+    }
+
+    exportWav(): Blob {
+        const length = this.chunks.reduce((total, chunk) => total + chunk[0].length, 0);
+        const channels = [new Float32Array(length), new Float32Array(length)];
+        let offset = 0;
+        this.chunks.forEach((chunk) => {
+            channels.forEach((channel, index) => channel.set(chunk[Math.min(index, chunk.length - 1)], offset));
+            offset += chunk[0].length;
+        });
+        return encodeWav(channels, this.sampleRate);
+    }
+
+    /**
+     * Function to export the hits as MIDI, with one track for every kit played during the recording
+     */
+    exportMidi(bpm: number): Blob {
+        const tracks: Map<Mode, MidiTrack> = new Map();
+        this.hits.forEach((hit) => {
+            const kit = kitRegistry.get(hit.kit);
+            if (!kit) {
+                return;
+            }
+            if (!tracks.has(kit.id)) {
+                tracks.set(kit.id, { name: kit.name, notes: [] });
+            }
+            kit.midi.notes[hit.pad].forEach((note) => {
+                tracks.get(kit.id)!.notes.push({
+                    time: hit.time,
+                    duration: kit.midi.duration,
+                    note: note,
+                    velocity: toMidiVelocity(hit.velocity),
+                    channel: kit.midi.channel,
+                });
+            });
+        });
+        return encodeMidi(Array.from(tracks.values()), bpm);
+    }
+}
@@ -0,0 +1,43 @@
+/**
+ * Function to encode PCM channels as a 16 bit WAV file
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number): Blob {
+    const numberOfChannels = channels.length;
+    const length = numberOfChannels > 0 ? channels[0].length : 0;
+    const bytesPerSample = 2;
+    const dataSize = length * numberOfChannels * bytesPerSample;
+    const buffer = new ArrayBuffer(44 + dataSize);
+    const view = new DataView(buffer);
+
+    writeString(view, 0, "RIFF");
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(view, 8, "WAVE");
+    writeString(view, 12, "fmt ");
+    view.setUint32(16, 16, true); // Size of the fmt chunk
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, numberOfChannels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * numberOfChannels * bytesPerSample, true);
+    view.setUint16(32, numberOfChannels * bytesPerSample, true);
+    view.setUint16(34, bytesPerSample * 8, true);
+    writeString(view, 36, "data");
+    view.setUint32(40, dataSize, true);
+
+    // Interleave the channels
+    let offset = 44;
+    for (let i = 0; i < length; i++) {
+        for (let channel = 0; channel < numberOfChannels; channel++) {
+            const sample = Math.max(-1, Math.min(1, channels[channel][i]));
+            view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
+            offset += bytesPerSample;
+        }
+    }
+
+    return new Blob([buffer], { type: "audio/wav" });
+}
+
+function writeString(view: DataView, offset: number, text: string) {
+    for (let i = 0; i < text.length; i++) {
+        view.setUint8(offset + i, text.charCodeAt(i));
+    }
+}
@@ -0,0 +1,264 @@
+import { AudioManager, DrumHit } from "../AudioManager";
+import { DRUM_PADS, DrumPad } from "../kits/SampleKit";
+
+const BEATS_PER_BAR = 4;
+const SCHEDULER_INTERVAL = 25; // ms between two runs of the scheduler
+const SCHEDULE_AHEAD_TIME = 0.1; // seconds of audio scheduled at every run
+
+export const MIN_BPM = 40;
+export const MAX_BPM = 240;
+
+// Velocity (0..1) of every step of every pad, 0 when the step is off
+export type Pattern = Record<DrumPad, number[]>;
+
+interface ScheduledStep {
+    pad: DrumPad;
+    step: number;
+    time: number;
+    source: AudioBufferSourceNode;
+}
+
+/**
+ * Loop of drum steps played on the AudioContext clock. Every run of the scheduler queues the steps falling in
+ * the next SCHEDULE_AHEAD_TIME seconds with source.start(time), so the timing does not depend on the timers.
+ * While armed, the live drum hits are quantized on the grid and added to the pattern
+ */
+export class StepSequencer {
+    private soundManager: AudioManager;
+    private bpm: number = 120;
+    private bars: number = 1;
+    private stepsPerBar: number = 16;
+    private pattern: Pattern;
+    private armed: boolean = false;
+    private timer: any = null;
+    private nextStep: number = 0;
+    private nextStepTime: number = 0;
+    private scheduledSteps: ScheduledStep[] = [];
+    private skippedSteps: Set<string> = new Set();
+    private listeners: any = [];
+
+    constructor(soundManager: AudioManager) {
+        this.soundManager = soundManager;
+        this.pattern = this.createPattern(this.getTotalSteps());
+        soundManager.addHitListener(this.onHit);
+    }
+
+    addListener(listener: any) {
+        this.listeners.push(listener);
+    }
+
+    removeListener(listener: any) {
+        this.listeners = this.listeners.filter((l: any) => l !== listener);
+    }
+
+    fireListeners() {
+        this.listeners.forEach((listener: any) => listener());
+    }
+
+    getBpm() {
+        return this.bpm;
+    }
+
+    setBpm(bpm: number) {
+        this.bpm = Math.min(MAX_BPM, Math.max(MIN_BPM, bpm));
+        this.fireListeners();
+    }
+
+    getBars() {
+        return this.bars;
+    }
+
+    setBars(bars: number) {
+        this.resize(Math.max(1, Math.round(bars)), this.stepsPerBar);
+    }
+
+    getStepsPerBar() {
+        return this.stepsPerBar;
+    }
+
+    setStepsPerBar(stepsPerBar: number) {
+        this.resize(this.bars, Math.max(1, Math.round(stepsPerBar)));
+    }
+
+    getTotalSteps() {
+        return this.bars * this.stepsPerBar;
+    }
+
+    /**
+     * Duration of a step in seconds, the bars are in 4/4
+     */
+    getStepDuration() {
+        return (60 / this.bpm) * BEATS_PER_BAR / this.stepsPerBar;
+    }
+
+    getPattern(): Pattern {
+        return this.pattern;
+    }
+
+    isStepActive(pad: DrumPad, step: number) {
+        return this.pattern[pad][step] > 0;
+    }
+
+    getStepVelocity(pad: DrumPad, step: number) {
+        return this.pattern[pad][step];
+    }
+
+    /**
+     * Function to switch a step on, at full velocity, or off
+     */
+    toggleStep(pad: DrumPad, step: number) {
+        this.pattern[pad][step] = this.isStepActive(pad, step) ? 0 : 1;
+        this.fireListeners();
+    }
+
+    clear() {
+        this.pattern = this.createPattern(this.getTotalSteps());
+        this.fireListeners();
+    }
+
+    isArmed() {
+        return this.armed;
+    }
+
+    /**
+     * Function to arm or disarm the recording of the live hits, arming also starts the loop
+     */
+    setArmed(armed: boolean) {
+        this.armed = armed;
+        if (armed && !this.isPlaying()) {
+            this.start();
+        }
+        this.fireListeners();
+    }
+
+    isPlaying() {
+        return this.timer != null;
+    }
+
+    start() {
+        const audioContext = this.soundManager.getAudioContext();
+        if (!audioContext || this.isPlaying()) {
+            return;
+        }
+        if (audioContext.state == "suspended") {
+            audioContext.resume();
+        }
+        this.nextStep = 0;
+        this.nextStepTime = audioContext.currentTime + 0.05;
+        this.timer = setInterval(this.schedule, SCHEDULER_INTERVAL);
+        this.schedule();
+        this.fireListeners();
+    }
+
+    stop() {
+        if (this.timer != null) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        this.scheduledSteps.forEach((scheduled) => scheduled.source.stop());
+        this.scheduledSteps = [];
+        this.skippedSteps.clear();
+        this.armed = false;
+        this.fireListeners();
+    }
+
+    /**
+     * Function to get the step currently heard, according to the AudioContext clock
+     */
+    getCurrentStep() {
+        const audioContext = this.soundManager.getAudioContext();
+        if (!audioContext || !this.isPlaying()) {
+            return -1;
+        }
+        return this.getStepAt(audioContext.currentTime, Math.floor);
+    }
+
+    private getStepAt(time: number, round: (value: number) => number) {
+        const total = this.getTotalSteps();
+        const stepsBefore = round((this.nextStepTime - time) / this.getStepDuration());
+        return (((this.nextStep - stepsBefore) % total) + total) % total;
+    }
+
+    private schedule = () => {
+        const audioContext = this.soundManager.getAudioContext();
+        if (!audioContext) {
+            return;
+        }
+        this.scheduledSteps = this.scheduledSteps.filter((scheduled) => scheduled.time > audioContext.currentTime);
+
+        while (this.nextStepTime < audioContext.currentTime + SCHEDULE_AHEAD_TIME) {
+            DRUM_PADS.forEach((pad) => {
+                const key = pad + ":" + this.nextStep;
+                const velocity = this.pattern[pad][this.nextStep];
+                if (this.skippedSteps.delete(key) || velocity <= 0) {
+                    return;
+                }
+                const source = this.soundManager.playSound(pad, this.nextStepTime, velocity);
+                if (source) {
+                    this.scheduledSteps.push({ pad: pad, step: this.nextStep, time: this.nextStepTime, source: source });
+                }
+            });
+            this.nextStepTime += this.getStepDuration();
+            this.nextStep = (this.nextStep + 1) % this.getTotalSteps();
+        }
+    }
+
+    /**
+     * Function to quantize a live hit on the nearest step, with its velocity. The hit was already heard, so the
+     * same step is not played again in the current pass of the loop
+     */
+    private onHit = (hit: DrumHit) => {
+        if (!this.armed || hit.scheduled || !this.isPlaying()) {
+            return;
+        }
+        const step = this.getStepAt(hit.time, Math.round);
+        const stepTime = this.nextStepTime - Math.round((this.nextStepTime - hit.time) / this.getStepDuration()) * this.getStepDuration();
+        if (stepTime >= this.nextStepTime) {
+            this.skippedSteps.add(hit.pad + ":" + step);
+        } else {
+            const scheduled = this.scheduledSteps.find((scheduled) => scheduled.pad == hit.pad && scheduled.step == step);
+            if (scheduled && scheduled.time > hit.time) {
+                scheduled.source.stop();
+            }
+        }
+        this.pattern[hit.pad][step] = hit.velocity;
+        this.fireListeners();
+    }
+
+    private createPattern(totalSteps: number): Pattern {
+        const pattern = {} as Pattern;
+        DRUM_PADS.forEach((pad) => {
+            pattern[pad] = new Array(totalSteps).fill(0);
+        });
+        return pattern;
+    }
+
+    /**
+     * Function to change the grid keeping every active step at the same position inside its bar
+     */
+    private resize(bars: number, stepsPerBar: number) {
+        const pattern = this.createPattern(bars * stepsPerBar);
+        DRUM_PADS.forEach((pad) => {
+            this.pattern[pad].forEach((velocity, step) => {
+                const bar = Math.floor(step / this.stepsPerBar);
+                const position = Math.round((step % this.stepsPerBar) * stepsPerBar / this.stepsPerBar);
+                if (velocity > 0 && bar < bars && position < stepsPerBar) {
+                    pattern[pad][bar * stepsPerBar + position] = Math.max(velocity, pattern[pad][bar * stepsPerBar + position]);
+                }
+            });
+        });
+        const wasPlaying = this.isPlaying();
+        const armed = this.armed;
+        if (wasPlaying) {
+            this.stop();
+        }
+        this.pattern = pattern;
+        this.bars = bars;
+        this.stepsPerBar = stepsPerBar;
+        if (wasPlaying) {
+            this.start();
+            this.armed = armed;
+        }
+        this.fireListeners();
+    }
+}
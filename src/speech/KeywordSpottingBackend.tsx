@@ -0,0 +1,198 @@
+import * as tf from '@tensorflow/tfjs';
+import { SpeechBackend, SpeechBackendHandler } from "./SpeechBackend";
+
+// A speech-commands model (browser FFT): model.json, its weights and metadata.json with the words of the outputs
+const BUNDLED_MODEL_URL = "assets/models/speech-commands/";
+// Only when the user allows it: the model is not part of the app, the download sends the request to Google
+const HOSTED_MODEL_URL = "https://storage.googleapis.com/tfjs-models/tfjs/speech-commands/v0.5/browser_fft/18w/";
+const CACHED_MODEL = "indexeddb://tune-crafter-speech-commands";
+const CACHED_WORDS_KEY = "tuneCrafter.speechCommandsWords";
+const DOWNLOAD_KEY = "tuneCrafter.speechCommandsDownload";
+const SAMPLE_RATE = 44100; // of the recordings the model was trained on
+const FFT_SIZE = 1024;
+const OVERLAP = 0.5; // of two windows the model classifies
+const SCORE_THRESHOLD = 0.85;
+const SUPPRESSION_TIME = 1000; // ms, the same word is not recognized twice in this time
+const MIN_DECIBELS = -160; // silence, instead of -Infinity
+
+// The words the app understands differently, the other ones are the transcript as they are
+const KEYWORD_TRANSCRIPTS: Record<string, string> = {
+    go: "play",
+    right: "next",
+    left: "repeat",
+    one: "track one",
+    two: "track two",
+    three: "track three",
+    four: "track four",
+    five: "track five",
+    six: "track six",
+    seven: "track seven",
+    eight: "track eight",
+    nine: "track nine",
+};
+
+/**
+ * Keyword spotting on the device: a small TF.js model classifies the last second of the microphone spectrum among a few
+ * words (go, stop, left, right, the digits...). The model is kept in IndexedDB once loaded, so it works without network
+ */
+export class KeywordSpottingBackend implements SpeechBackend {
+    readonly id = "keywords";
+    readonly name = "Keywords (offline)";
+    readonly offline = true;
+    private model: tf.LayersModel | undefined = undefined;
+    private words: string[] = [];
+    private handler: SpeechBackendHandler | undefined = undefined;
+    private stream: MediaStream | undefined = undefined;
+    private audioContext: AudioContext | undefined = undefined;
+    private timer: number | undefined = undefined;
+    private frames: Float32Array[] = [];
+    private lastWord: string = "";
+    private lastWordTime: number = 0;
+    private downloadAllowed: boolean = localStorage.getItem(DOWNLOAD_KEY) == "true";
+
+    isSupported() {
+        return navigator.mediaDevices?.getUserMedia != undefined && window.AudioContext != undefined;
+    }
+
+    isDownloadAllowed() {
+        return this.downloadAllowed;
+    }
+
+    setDownloadAllowed(allowed: boolean) {
+        this.downloadAllowed = allowed;
+        localStorage.setItem(DOWNLOAD_KEY, allowed.toString());
+    }
+
+    start(handler: SpeechBackendHandler) {
+        this.handler = handler;
+        this.listen(handler).catch((error) => {
+            if (this.handler != handler) {
+                return;
+            }
+            const denied = error?.name == "NotAllowedError" || error?.name == "SecurityError";
+            const noMicrophone = error?.name == "NotFoundError";
+            handler.onError({
+                code: denied ? "not-allowed" : noMicrophone ? "audio-capture" : this.model ? "other" : "model",
+                message: error?.message ?? String(error),
+            });
+            this.end();
+        });
+    }
+
+    stop() {
+        // The windows are classified as they come, there is nothing left to deliver
+        this.end();
+    }
+
+    private async listen(handler: SpeechBackendHandler) {
+        await this.loadModel();
+        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        if (this.handler != handler) {
+            // Stopped while the model or the microphone were loading
+            stream.getTracks().forEach((track) => track.stop());
+            return;
+        }
+        this.stream = stream;
+        try {
+            this.audioContext = new AudioContext({ sampleRate: SAMPLE_RATE });
+        } catch (error) {
+            this.audioContext = new AudioContext();
+        }
+        const analyser = this.audioContext.createAnalyser();
+        analyser.fftSize = FFT_SIZE;
+        analyser.smoothingTimeConstant = 0;
+        this.audioContext.createMediaStreamSource(this.stream).connect(analyser);
+
+        const [, frameCount, binCount] = this.model!.inputs[0].shape as number[];
+        const hop = Math.max(1, Math.round(frameCount * (1 - OVERLAP)));
+        let sinceLastWindow = 0;
+        this.frames = [];
+        const frameDuration = FFT_SIZE / this.audioContext.sampleRate * 1000;
+        this.timer = window.setInterval(() => {
+            const spectrum = new Float32Array(analyser.frequencyBinCount);
+            analyser.getFloatFrequencyData(spectrum);
+            this.frames.push(spectrum.slice(0, binCount).map((value) => Math.max(MIN_DECIBELS, value)));
+            if (this.frames.length > frameCount) {
+                this.frames.shift();
+            }
+            if (++sinceLastWindow >= hop && this.frames.length == frameCount) {
+                sinceLastWindow = 0;
+                this.classify(frameCount, binCount);
+            }
+        }, frameDuration);
+        handler.onStart();
+    }
+
+    /**
+     * Function to load the model, from IndexedDB when it was loaded before, else from the app assets, or from the web
+     * when the user allowed its download
+     */
+    private async loadModel() {
+        if (this.model) {
+            return;
+        }
+        try {
+            this.model = await tf.loadLayersModel(CACHED_MODEL);
+            this.words = JSON.parse(localStorage.getItem(CACHED_WORDS_KEY) ?? "[]");
+            if (this.words.length > 0) {
+                return;
+            }
+        } catch (error) {
+            // Not loaded before
+        }
+        let lastError: any = undefined;
+        for (const url of this.downloadAllowed ? [BUNDLED_MODEL_URL, HOSTED_MODEL_URL] : [BUNDLED_MODEL_URL]) {
+            try {
+                const metadata = await (await fetch(url + "metadata.json")).json();
+                this.model = await tf.loadLayersModel(url + "model.json");
+                this.words = metadata.words ?? metadata.wordLabels;
+                await this.model.save(CACHED_MODEL);
+                localStorage.setItem(CACHED_WORDS_KEY, JSON.stringify(this.words));
+                return;
+            } catch (error) {
+                lastError = error;
+            }
+        }
+        this.model = undefined;
+        throw new Error(this.downloadAllowed ? lastError?.message ?? String(lastError) : "not in the app, allow its download");
+    }
+
+    private classify(frameCount: number, binCount: number) {
+        const scores = tf.tidy(() => {
+            const input = tf.tensor4d(Float32Array.from(this.frames.flatMap((frame) => Array.from(frame))), [1, frameCount, binCount, 1]);
+            const { mean, variance } = tf.moments(input);
+            const normalized = input.sub(mean).div(variance.sqrt().add(1e-6));
+            return (this.model!.predict(normalized) as tf.Tensor).dataSync();
+        });
+        let best = 0;
+        scores.forEach((score, index) => {
+            if (score > scores[best]) {
+                best = index;
+            }
+        });
+        const word = this.words[best] ?? "";
+        if (word.startsWith("_") || scores[best] < SCORE_THRESHOLD) {
+            return; // _background_noise_, _unknown_
+        }
+        const now = Date.now();
+        if (word == this.lastWord && now - this.lastWordTime < SUPPRESSION_TIME) {
+            return;
+        }
+        this.lastWord = word;
+        this.lastWordTime = now;
+        this.handler?.onResult({ transcript: KEYWORD_TRANSCRIPTS[word] ?? word, isFinal: true, confidence: scores[best] });
+    }
+
+    private end() {
+        window.clearInterval(this.timer);
+        this.timer = undefined;
+        this.stream?.getTracks().forEach((track) => track.stop());
+        this.stream = undefined;
+        this.audioContext?.close();
+        this.audioContext = undefined;
+        this.frames = [];
+        const handler = this.handler;
+        this.handler = undefined;
+        handler?.onEnd();
+    }
+}
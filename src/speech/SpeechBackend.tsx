@@ -0,0 +1,42 @@
+export type SpeechBackendId = "webSpeech" | "keywords";
+
+/**
+ * Transcript of what the user said. Interim results of a phrase are followed by its final result, confidence is 0..1
+ */
+export interface SpeechResult {
+    transcript: string;
+    isFinal: boolean;
+    confidence: number;
+}
+
+// "no-speech" and "aborted" are part of the normal life of a session, "model" is a keyword model that could not be loaded
+export type SpeechErrorCode = "no-speech" | "aborted" | "not-allowed" | "audio-capture" | "network" | "model" | "other";
+
+export interface SpeechError {
+    code: SpeechErrorCode;
+    message: string;
+}
+
+/**
+ * What a backend tells the speech service during a session: onStart once it listens, onEnd once it stopped,
+ * whether the session was stopped, failed or ended by the backend itself
+ */
+export interface SpeechBackendHandler {
+    onStart: () => void;
+    onResult: (result: SpeechResult) => void;
+    onError: (error: SpeechError) => void;
+    onEnd: () => void;
+}
+
+/**
+ * Speech recognizer the speech service runs sessions of. One session at a time: start() is only called again after onEnd
+ */
+export interface SpeechBackend {
+    readonly id: SpeechBackendId;
+    readonly name: string;
+    readonly offline: boolean; // recognizes without sending the audio anywhere
+    isSupported(): boolean;
+    start(handler: SpeechBackendHandler): void;
+    // The results of what was said before are still delivered, then onEnd
+    stop(): void;
+}
@@ -0,0 +1,265 @@
+import { KeywordSpottingBackend } from "./KeywordSpottingBackend";
+import { SpeechBackend, SpeechBackendId, SpeechError, SpeechErrorCode, SpeechResult } from "./SpeechBackend";
+import { WebSpeechBackend } from "./WebSpeechBackend";
+
+const PUSH_TO_TALK_KEY = "tuneCrafter.pushToTalk";
+const BACKEND_KEY = "tuneCrafter.speechBackend";
+const RESTART_DELAY = 100; // ms, after the browser ends a healthy session (e.g. a few seconds of silence)
+const MAX_RESTART_DELAY = 10000; // ms, the backoff after failed sessions doubles up to it
+const MIN_SESSION = 1000; // ms, a session ending sooner failed even without an error
+
+export type SpeechStatus = "idle" | "listening" | "error" | "unsupported";
+
+// "auto" is the browser recognizer when it is there and the network is up, the keyword model otherwise
+export type SpeechBackendPreference = "auto" | SpeechBackendId;
+
+export type TranscriptListener = (result: SpeechResult) => void;
+
+// Errors of the recognizer that are part of its normal life, the session is restarted right away
+const BENIGN_ERRORS: SpeechErrorCode[] = ["no-speech", "aborted"];
+
+/**
+ * Owns the speech recognizer of the app, one session of one backend at a time. While the service is active a session
+ * is kept running: the backends end their sessions after a while, a new one is started then, with a growing delay when
+ * the sessions keep failing. With push to talk it only listens while the user holds the talk button. Listeners are called
+ * when the status changes, transcript listeners get the interim and final transcripts
+ */
+export class SpeechService {
+    private keywords = new KeywordSpottingBackend();
+    private backends: Record<SpeechBackendId, SpeechBackend> = {
+        webSpeech: new WebSpeechBackend(),
+        keywords: this.keywords,
+    };
+    private preference: SpeechBackendPreference = (localStorage.getItem(BACKEND_KEY) as SpeechBackendPreference | null) ?? "auto";
+    private backend: SpeechBackend | undefined = undefined; // of the running session
+    private active: boolean = false; // a component uses the voice commands
+    private talking: boolean = false; // the push to talk button is held
+    private pushToTalk: boolean = localStorage.getItem(PUSH_TO_TALK_KEY) == "true";
+    private running: boolean = false; // between backend.start() and onEnd
+    private failed: boolean = false; // the running session had an error
+    private unrecoverable: boolean = false; // a restart cannot fix the error of the last session
+    private sessionStart: number = 0;
+    private failures: number = 0; // failed sessions in a row
+    private restartTimer: number | undefined = undefined;
+    private status: SpeechStatus = "idle";
+    private error: string = "";
+    private transcriptListeners: TranscriptListener[] = [];
+    listeners: any = [];
+
+    addListener(listener: any) {
+        this.listeners.push(listener);
+    }
+
+    removeListener(listener: any) {
+        this.listeners = this.listeners.filter((l: any) => l !== listener);
+    }
+
+    fireListeners() {
+        this.listeners.forEach((listener: any) => listener());
+    }
+
+    addTranscriptListener(listener: TranscriptListener) {
+        this.transcriptListeners.push(listener);
+    }
+
+    removeTranscriptListener(listener: TranscriptListener) {
+        this.transcriptListeners = this.transcriptListeners.filter((l) => l !== listener);
+    }
+
+    isSupported() {
+        return Object.values(this.backends).some((backend) => backend.isSupported());
+    }
+
+    getBackends(): SpeechBackend[] {
+        return Object.values(this.backends);
+    }
+
+    getBackendPreference(): SpeechBackendPreference {
+        return this.preference;
+    }
+
+    /**
+     * Function to choose the backend, the running session ends and the next one uses the new backend.
+     * The error of the previous backend does not hold the new one back
+     */
+    setBackendPreference(preference: SpeechBackendPreference) {
+        this.preference = preference;
+        localStorage.setItem(BACKEND_KEY, preference);
+        this.unrecoverable = false;
+        this.failures = 0;
+        if (this.running) {
+            this.sessionStart = 0; // not a failed session, the new backend starts right away
+            this.backend?.stop();
+        } else {
+            this.update();
+        }
+        this.fireListeners();
+    }
+
+    /**
+     * Function to get the backend the next session uses, or the one of the running session
+     */
+    getBackend(): SpeechBackend | undefined {
+        if (this.running && this.backend) {
+            return this.backend;
+        }
+        const webSpeech = this.backends.webSpeech;
+        const keywords = this.backends.keywords;
+        if (this.preference != "auto") {
+            return this.backends[this.preference].isSupported() ? this.backends[this.preference] : undefined;
+        }
+        if (webSpeech.isSupported() && (navigator.onLine || !keywords.isSupported())) {
+            return webSpeech;
+        }
+        return keywords.isSupported() ? keywords : undefined;
+    }
+
+    getStatus(): SpeechStatus {
+        return this.status;
+    }
+
+    // Why the status is "error", empty otherwise
+    getError() {
+        return this.error;
+    }
+
+    isModelDownloadAllowed() {
+        return this.keywords.isDownloadAllowed();
+    }
+
+    /**
+     * Function to let the keyword backend download its model from the web, a session that failed without it starts again
+     */
+    setModelDownloadAllowed(allowed: boolean) {
+        this.keywords.setDownloadAllowed(allowed);
+        if (allowed && this.active) {
+            this.start();
+        }
+        this.fireListeners();
+    }
+
+    isPushToTalk() {
+        return this.pushToTalk;
+    }
+
+    setPushToTalk(pushToTalk: boolean) {
+        this.pushToTalk = pushToTalk;
+        localStorage.setItem(PUSH_TO_TALK_KEY, pushToTalk.toString());
+        this.update();
+        this.fireListeners();
+    }
+
+    /**
+     * Function to start using the voice commands, the recognizer listens from now on, or when the talk button is held
+     */
+    start() {
+        this.active = true;
+        this.unrecoverable = false;
+        this.failures = 0;
+        this.update();
+    }
+
+    stop() {
+        this.active = false;
+        this.update();
+    }
+
+    setTalking(talking: boolean) {
+        this.talking = talking;
+        this.update();
+    }
+
+    private shouldListen() {
+        return this.active && !this.unrecoverable && (!this.pushToTalk || this.talking);
+    }
+
+    /**
+     * Function to start or stop the recognizer so that it runs exactly when it should
+     */
+    private update() {
+        if (!this.getBackend()) {
+            this.setStatus("unsupported", "No speech recognizer in this browser");
+            return;
+        }
+        window.clearTimeout(this.restartTimer);
+        this.restartTimer = undefined;
+        if (this.shouldListen() && !this.running) {
+            this.startRecognizer();
+        } else if (!this.shouldListen() && this.running) {
+            // The words said before releasing the talk button are still delivered
+            this.backend?.stop();
+        } else if (!this.shouldListen() && this.status != "error") {
+            this.setStatus("idle");
+        }
+    }
+
+    private startRecognizer() {
+        this.backend = this.getBackend();
+        if (!this.backend) {
+            return;
+        }
+        this.running = true;
+        this.failed = false;
+        this.sessionStart = Date.now();
+        this.backend.start({
+            onStart: () => this.setStatus("listening"),
+            onResult: (result) => {
+                this.failures = 0;
+                this.transcriptListeners.forEach((listener) => listener(result));
+            },
+            onError: (error) => this.onError(error),
+            onEnd: () => this.onEnd(),
+        });
+    }
+
+    private onError(error: SpeechError) {
+        if (BENIGN_ERRORS.includes(error.code)) {
+            return;
+        }
+        console.error("Voice recognition error:", error.code, error.message);
+        this.failed = true;
+        if (error.code == "not-allowed") {
+            // The restart cannot fix it, the user has to allow the microphone first
+            this.unrecoverable = true;
+            this.setStatus("error", "Microphone blocked, allow it and click to retry");
+        } else if (error.code == "audio-capture") {
+            this.setStatus("error", "No microphone found");
+        } else if (error.code == "model") {
+            // Loading it again fails the same way, until the model is added to the app or its download is allowed
+            this.unrecoverable = true;
+            this.setStatus("error", "Keyword model not available: " + error.message);
+        } else {
+            this.setStatus("error", "Voice recognition error: " + error.message);
+        }
+    }
+
+    private onEnd() {
+        this.running = false;
+        if (!this.shouldListen()) {
+            if (this.status != "error") {
+                this.setStatus("idle");
+            }
+            return;
+        }
+        const failed = this.failed || Date.now() - this.sessionStart < MIN_SESSION;
+        this.failures = failed ? this.failures + 1 : 0;
+        const delay = failed ? Math.min(MAX_RESTART_DELAY, RESTART_DELAY * Math.pow(2, this.failures)) : RESTART_DELAY;
+        this.restartTimer = window.setTimeout(() => {
+            this.restartTimer = undefined;
+            if (this.shouldListen() && !this.running) {
+                this.startRecognizer();
+            }
+        }, delay);
+    }
+
+    private setStatus(status: SpeechStatus, error: string = "") {
+        if (status != this.status || error != this.error) {
+            this.status = status;
+            this.error = error;
+            this.fireListeners();
+        }
+    }
+}
+
+const speechService = new SpeechService();
+export default speechService;
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { parseSpokenNumber, parseSpokenTime, parseVoiceCommand, VoiceCommand } from "./VoiceCommands";
+
+describe("parseSpokenNumber", () => {
+    it.each<[string, number | undefined]>([
+        ["40", 40],
+        ["1.5", 1.5],
+        ["forty", 40],
+        ["forty two", 42],
+        ["one point five", 1.5],
+        ["two and a half", 2.5],
+        ["half a", 0.5],
+        ["a hundred", 100],
+        ["one hundred and twenty", 120],
+        ["4th", 4],
+        ["third", 3],
+        ["one point", undefined],
+        ["techno", undefined],
+        ["", undefined],
+    ])("reads %j as %j", (text, expected) => {
+        expect(parseSpokenNumber(text)).toBe(expected);
+    });
+});
+
+describe("parseSpokenTime", () => {
+    it.each<[string, number | undefined]>([
+        ["1:30", 90],
+        ["0:05", 5],
+        ["ninety seconds", 90],
+        ["one minute thirty", 90],
+        ["2 minutes and 15 seconds", 135],
+        ["three minutes", 180],
+        ["the chorus", undefined],
+        ["", undefined],
+    ])("reads %j as %j seconds", (text, expected) => {
+        expect(parseSpokenTime(text)).toBe(expected);
+    });
+});
+
+describe("parseVoiceCommand", () => {
+    const kits = ["normal", "christmas", "piano"];
+
+    it.each<[string, VoiceCommand | undefined]>([
+        ["play", { type: "Play" }],
+        ["Stop.", { type: "Pause" }],
+        ["loop", { type: "Restart" }],
+        ["next", { type: "Next" }],
+        ["volume 40", { type: "SetVolume", volume: 0.4 }],
+        ["set the volume to forty percent", { type: "SetVolume", volume: 0.4 }],
+        ["volume 40%", { type: "SetVolume", volume: 0.4 }],
+        ["speed one point five", { type: "SetSpeed", rate: 1.5 }],
+        ["set speed to times two", { type: "SetSpeed", rate: 2 }],
+        ["half speed", { type: "SetSpeed", rate: 0.5 }],
+        ["go to 1:30", { type: "Seek", time: 90 }],
+        ["jump to one minute thirty", { type: "Seek", time: 90 }],
+        ["track 3", { type: "SelectTrack", track: 3 }],
+        ["play song number three", { type: "SelectTrack", track: 3 }],
+        ["third track", { type: "SelectTrack", track: 3 }],
+        ["loop four bars", { type: "SetLoop", beats: 16 }],
+        ["loop 8 beats", { type: "SetLoop", beats: 8 }],
+        ["stop the loop", { type: "ClearLoop" }],
+        ["switch to piano mode", { type: "SelectKit", kit: "piano" }],
+        ["christmas", { type: "SelectKit", kit: "christmas" }],
+        ["play techno track", { type: "PlayNamed", query: "techno track", exact: false }],
+        ["play techno", { type: "PlayNamed", query: "techno", exact: false }],
+        ["playlist chill", { type: "PlayNamed", query: "chill", kind: "playlist", exact: false }],
+        ["techno", { type: "PlayNamed", query: "techno", exact: true }],
+        ["", undefined],
+    ])("parses %j", (transcript, expected) => {
+        expect(parseVoiceCommand(transcript, kits)).toEqual(expected);
+    });
+
+    it.each([
+        "set tempo to 120",
+        "speed 120",
+        "speed ten",
+        "volume 200",
+    ])("does not take %j as a speed or volume outside of their range", (transcript) => {
+        expect(parseVoiceCommand(transcript, kits)?.type).not.toMatch(/^Set(Speed|Volume)$/);
+    });
+});
@@ -0,0 +1,226 @@
+import { BEATS_PER_BAR } from "../tempo/TempoDetection";
+
+const MIN_SPEED = 0.5; // the clamp of AudioManager.getSpeedValue()
+const MAX_SPEED = 2;
+
+/**
+ * What a voice command asks the app to do. The parser only reads the transcript, the SpeechComponent applies the commands
+ */
+export type VoiceCommand =
+    | { type: "Play" }
+    | { type: "Pause" }
+    | { type: "Restart" } // back to the start of the track
+    | { type: "Next" }
+    | { type: "Reset" }
+    | { type: "SetVolume", volume: number } // 0..1
+    | { type: "SetSpeed", rate: number } // 0.5..2
+    | { type: "Seek", time: number } // seconds
+    | { type: "SelectTrack", track: number } // 1 for the first track of the playlist
+    | { type: "SetLoop", beats: number } // loop length from the loop start, or from the current time
+    | { type: "ClearLoop" }
+    | { type: "SelectKit", kit: string }
+    | { type: "PlayNamed", query: string, kind?: "track" | "playlist", exact: boolean }; // a name of the playlist catalog
+
+export type VoiceCommandType = VoiceCommand["type"];
+
+const UNITS: Record<string, number> = {
+    zero: 0, oh: 0, one: 1, won: 1, two: 2, too: 2, three: 3, four: 4, for: 4, five: 5, six: 6, seven: 7, eight: 8, ate: 8, nine: 9,
+    ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+};
+
+const TENS: Record<string, number> = {
+    twenty: 20, thirty: 30, forty: 40, fourty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+const ORDINALS: Record<string, number> = {
+    first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+    eleventh: 11, twelfth: 12, "1st": 1, "2nd": 2, "3rd": 3,
+};
+
+/**
+ * Function to read a number said with words, digits or both, e.g. "forty", "1.5", "one point five", "two and a half",
+ * "a hundred", "half a", "4th". Undefined when a word is not part of a number
+ */
+export function parseSpokenNumber(text: string): number | undefined {
+    const words = text.toLowerCase().replace(/-/g, " ").split(/\s+/).filter((word) => word && word != "and");
+    if (words.length == 0) {
+        return undefined;
+    }
+    let total = 0;
+    let current = 0;
+    let decimals: string | undefined = undefined;
+    for (let i = 0; i < words.length; i++) {
+        const word = words[i];
+        const next = words[i + 1];
+        if (decimals != undefined) {
+            // After "point" every word is one digit
+            const digit = /^\d+$/.test(word) ? word : UNITS[word] != undefined && UNITS[word] < 10 ? UNITS[word].toString() : undefined;
+            if (digit == undefined) {
+                return undefined;
+            }
+            decimals += digit;
+        } else if (/^\d+(\.\d+)?$/.test(word)) {
+            current += parseFloat(word);
+        } else if (/^\d+(st|nd|rd|th)$/.test(word)) {
+            current += parseInt(word);
+        } else if (UNITS[word] != undefined) {
+            current += UNITS[word];
+        } else if (TENS[word] != undefined) {
+            current += TENS[word];
+        } else if (ORDINALS[word] != undefined) {
+            current += ORDINALS[word];
+        } else if (word == "hundred") {
+            current = (current || 1) * 100;
+        } else if (word == "thousand") {
+            total += (current || 1) * 1000;
+            current = 0;
+        } else if (word == "point" || word == "dot") {
+            decimals = "";
+        } else if (word == "half") {
+            current += 0.5;
+        } else if ((word == "a" || word == "an") && (next == "hundred" || next == "thousand" || next == "half" || words[i - 1] == "half")) {
+            continue;
+        } else {
+            return undefined;
+        }
+    }
+    if (decimals == "") {
+        return undefined;
+    }
+    return total + current + (decimals ? parseFloat("0." + decimals) : 0);
+}
+
+/**
+ * Function to read a time of the track, e.g. "1:30", "ninety seconds", "one minute thirty", "2 minutes and 15 seconds"
+ */
+export function parseSpokenTime(text: string): number | undefined {
+    const clock = text.trim().match(/^(\d+):(\d{1,2})$/);
+    if (clock) {
+        return parseInt(clock[1]) * 60 + parseInt(clock[2]);
+    }
+    const [minutesText, secondsText] = text.split(/\bminutes?\b/);
+    const seconds = (part: string | undefined) => {
+        const cleaned = (part ?? "").replace(/\b(seconds?|secs?)\b/g, "").trim();
+        return cleaned ? parseSpokenNumber(cleaned) : 0;
+    };
+    if (secondsText == undefined) {
+        return text.trim() ? seconds(minutesText) : undefined;
+    }
+    const minutes = parseSpokenNumber(minutesText);
+    const rest = seconds(secondsText);
+    return minutes != undefined && rest != undefined ? minutes * 60 + rest : undefined;
+}
+
+interface Rule {
+    pattern: RegExp;
+    build: (match: RegExpMatchArray) => VoiceCommand | undefined;
+}
+
+const KEYWORDS: Record<string, VoiceCommand> = {
+    start: { type: "Play" },
+    play: { type: "Play" },
+    resume: { type: "Play" },
+    pause: { type: "Pause" },
+    stop: { type: "Pause" },
+    repeat: { type: "Restart" },
+    loop: { type: "Restart" },
+    restart: { type: "Restart" },
+    next: { type: "Next" },
+    reset: { type: "Reset" },
+};
+
+const SPEED_WORDS: Record<string, number> = { half: 0.5, normal: 1, double: 2 };
+
+const RULES: Rule[] = [
+    {
+        // "volume 40", "set the volume to forty percent"
+        pattern: /^(?:set )?(?:the )?volume (?:to |at )?(.+?)(?: percent)?$/,
+        build: (match) => {
+            const percent = parseSpokenNumber(match[1]);
+            return percent != undefined && percent <= 100 ? { type: "SetVolume", volume: percent / 100 } : undefined;
+        },
+    },
+    {
+        // "speed 1.5", "set speed to one point five", "speed times two"
+        pattern: /^(?:set )?(?:the )?(?:speed|rate) (?:to |at )?(?:times )?(.+?)(?: x| times)?$/,
+        build: (match) => {
+            const rate = parseSpokenNumber(match[1]);
+            // Out of range it is not a speed: "speed 120" was meant as a tempo
+            return rate != undefined && rate >= MIN_SPEED && rate <= MAX_SPEED ? { type: "SetSpeed", rate: rate } : undefined;
+        },
+    },
+    {
+        // "half speed", "normal speed", "double speed"
+        pattern: /^(half|normal|double) speed$/,
+        build: (match) => ({ type: "SetSpeed", rate: SPEED_WORDS[match[1]] }),
+    },
+    {
+        // "go to 1:30", "seek to one minute thirty", "jump to ninety seconds"
+        pattern: /^(?:go|seek|jump|skip|move)(?: to)? (.+)$/,
+        build: (match) => {
+            const time = parseSpokenTime(match[1]);
+            return time != undefined ? { type: "Seek", time: time } : undefined;
+        },
+    },
+    {
+        // "track 3", "play song number three", "third track"
+        pattern: /^(?:play )?(?:the )?(?:(?:track|song)(?: number)? (.+)|(.+) (?:track|song))$/,
+        build: (match) => {
+            const track = parseSpokenNumber(match[1] ?? match[2]);
+            return track != undefined && Number.isInteger(track) && track >= 1 ? { type: "SelectTrack", track: track } : undefined;
+        },
+    },
+    {
+        // "loop four bars", "loop 8 beats", "loop one bar"
+        pattern: /^(?:set )?(?:the )?loop (?:to |of )?(.+) (beats?|bars?)$/,
+        build: (match) => {
+            const length = parseSpokenNumber(match[1]);
+            const beats = length != undefined && match[2].startsWith("bar") ? length * BEATS_PER_BAR : length;
+            return beats != undefined && beats > 0 ? { type: "SetLoop", beats: beats } : undefined;
+        },
+    },
+    {
+        pattern: /^(?:clear|stop|cancel|remove|no)(?: the)? loop$/,
+        build: () => ({ type: "ClearLoop" }),
+    },
+    {
+        // "kit piano", "switch to christmas mode"
+        pattern: /^(?:(?:switch|change) to )?(?:(?:kit|mode) (.+)|(.+) (?:kit|mode))$/,
+        build: (match) => ({ type: "SelectKit", kit: match[1] ?? match[2] }),
+    },
+    {
+        pattern: /^play (.+)$/,
+        build: (match) => ({ type: "PlayNamed", query: match[1], exact: false }),
+    },
+    {
+        pattern: /^playlist (.+)$/,
+        build: (match) => ({ type: "PlayNamed", query: match[1], kind: "playlist", exact: false }),
+    },
+];
+
+/**
+ * Function to parse a transcript of the recognizer into a command: the single keywords first, then the commands with a
+ * parameter, the first rule of RULES that matches and reads its parameter wins. A bare word naming one of the kits selects
+ * it, any other transcript may name a track or a playlist, it has to match a name (nearly) exactly then
+ */
+export function parseVoiceCommand(transcript: string, kits: string[] = []): VoiceCommand | undefined {
+    const text = transcript.toLowerCase().replace(/%/g, " percent").replace(/[^a-z0-9:.' ]+/g, " ")
+        .replace(/\s+/g, " ").replace(/\.$/, "").trim();
+    if (!text) {
+        return undefined;
+    }
+    if (KEYWORDS[text]) {
+        return KEYWORDS[text];
+    }
+    for (const rule of RULES) {
+        const match = text.match(rule.pattern);
+        const command = match ? rule.build(match) : undefined;
+        if (command) {
+            return command;
+        }
+    }
+    if (kits.includes(text)) {
+        return { type: "SelectKit", kit: text };
+    }
+    return { type: "PlayNamed", query: text, exact: true };
+}
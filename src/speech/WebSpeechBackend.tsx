@@ -0,0 +1,60 @@
+import { SpeechBackend, SpeechBackendHandler, SpeechErrorCode } from "./SpeechBackend";
+
+const ERROR_CODES: Record<string, SpeechErrorCode> = {
+    "no-speech": "no-speech",
+    "aborted": "aborted",
+    "not-allowed": "not-allowed",
+    "service-not-allowed": "not-allowed",
+    "audio-capture": "audio-capture",
+    "network": "network",
+};
+
+/**
+ * Recognizer of the browser (Web Speech API): it understands whole phrases, but Chrome sends the audio to its cloud
+ * service and the other browsers mostly don't have it
+ */
+export class WebSpeechBackend implements SpeechBackend {
+    readonly id = "webSpeech";
+    readonly name = "Browser (online)";
+    readonly offline = false;
+    private recognition: any = undefined;
+    private handler: SpeechBackendHandler | undefined = undefined;
+
+    isSupported() {
+        return 'webkitSpeechRecognition' in window || 'SpeechRecognition' in window;
+    }
+
+    start(handler: SpeechBackendHandler) {
+        this.handler = handler;
+        try {
+            this.getRecognition().start();
+        } catch (error) {
+            // "already started": the session of an earlier start is still running
+            console.warn("Voice recognition not started:", error);
+        }
+    }
+
+    stop() {
+        this.recognition?.stop();
+    }
+
+    private getRecognition() {
+        if (!this.recognition) {
+            const Recognition = (window as any).SpeechRecognition ?? (window as any).webkitSpeechRecognition;
+            this.recognition = new Recognition();
+            this.recognition.continuous = true; // Continuously listen for commands
+            this.recognition.interimResults = true;
+            this.recognition.onstart = () => this.handler?.onStart();
+            this.recognition.onresult = (event: any) => {
+                const result = event.results[event.resultIndex];
+                //String resulting from the model
+                this.handler?.onResult({ transcript: result[0].transcript.trim(), isFinal: result.isFinal, confidence: result[0].confidence ?? 0 });
+            };
+            this.recognition.onerror = (event: any) => {
+                this.handler?.onError({ code: ERROR_CODES[event.error] ?? "other", message: event.message || event.error });
+            };
+            this.recognition.onend = () => this.handler?.onEnd();
+        }
+        return this.recognition;
+    }
+}
@@ -0,0 +1,81 @@
+const DB_NAME = "tune-crafter";
+const DB_VERSION = 2; // 2: tracks and playlists of the user
+
+/**
+ * Object stores of the application database, every record is identified by its "id" field
+ */
+export type StoreName = "gestureDatasets" | "tracks" | "playlists";
+
+const STORES: StoreName[] = ["gestureDatasets", "tracks", "playlists"];
+
+let database: Promise<IDBDatabase> | null = null;
+
+/**
+ * Function to open (and create or upgrade, the first time) the application database. The upgrade waits for the other
+ * tabs to close their connection: they do when they are told about the new version, a tab of an older version of the
+ * app does not, the open is rejected then instead of waiting forever
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+    if (!database) {
+        database = new Promise((resolve, reject) => {
+            let blocked = false;
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                STORES.forEach((store) => {
+                    if (!request.result.objectStoreNames.contains(store)) {
+                        request.result.createObjectStore(store, { keyPath: "id" });
+                    }
+                });
+            };
+            request.onblocked = () => {
+                blocked = true;
+                database = null;
+                reject(new Error("The app is open in another tab with an older version, close it and try again"));
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+                if (blocked) {
+                    // The other tab closed after the rejection, the next call opens the database again
+                    db.close();
+                    return;
+                }
+                // Another tab upgrades the database: this connection must not block it
+                db.onversionchange = () => {
+                    db.close();
+                    database = null;
+                };
+                resolve(db);
+            };
+            request.onerror = () => {
+                database = null;
+                reject(request.error);
+            };
+        });
+    }
+    return database;
+}
+
+async function runRequest<T>(store: StoreName, mode: IDBTransactionMode, action: (objectStore: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const request = action(db.transaction(store, mode).objectStore(store));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export function getAllRecords<T>(store: StoreName): Promise<T[]> {
+    return runRequest<T[]>(store, "readonly", (objectStore) => objectStore.getAll());
+}
+
+export function getRecord<T>(store: StoreName, id: string): Promise<T | undefined> {
+    return runRequest<T | undefined>(store, "readonly", (objectStore) => objectStore.get(id));
+}
+
+export function putRecord<T extends { id: string }>(store: StoreName, record: T): Promise<void> {
+    return runRequest<void>(store, "readwrite", (objectStore) => objectStore.put(record));
+}
+
+export function deleteRecord(store: StoreName, id: string): Promise<void> {
+    return runRequest<void>(store, "readwrite", (objectStore) => objectStore.delete(id));
+}
@@ -0,0 +1,40 @@
+import { TempoResult } from "./TempoDetection";
+import { TempoRequest } from "./tempoWorker";
+
+/**
+ * Runs the tempo detection of the decoded tracks in a Web Worker, so that the UI does not stall on long tracks
+ */
+export class TempoAnalyzer {
+    private worker: Worker | null = null;
+    private nextId: number = 0;
+    private pending: Map<number, (tempo: TempoResult) => void> = new Map();
+
+    private getWorker(): Worker {
+        if (!this.worker) {
+            this.worker = new Worker(new URL("./tempoWorker.tsx", import.meta.url), { type: "module" });
+            this.worker.onmessage = (event: MessageEvent<{ id: number, tempo: TempoResult }>) => {
+                this.pending.get(event.data.id)?.(event.data.tempo);
+                this.pending.delete(event.data.id);
+            };
+        }
+        return this.worker;
+    }
+
+    /**
+     * Function to estimate the tempo of a decoded track, the channels are copied so the buffer stays playable
+     */
+    analyze(buffer: AudioBuffer): Promise<TempoResult> {
+        const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i).slice());
+        const request: TempoRequest = { id: this.nextId++, channels: channels, sampleRate: buffer.sampleRate };
+        return new Promise((resolve) => {
+            this.pending.set(request.id, resolve);
+            this.getWorker().postMessage(request, channels.map((channel) => channel.buffer));
+        });
+    }
+
+    terminate() {
+        this.worker?.terminate();
+        this.worker = null;
+        this.pending.clear();
+    }
+}
@@ -0,0 +1,140 @@
+const HOP_SIZE = 512; // samples between two frames of the onset envelope
+const MIN_DETECTED_BPM = 70;
+const MAX_DETECTED_BPM = 180;
+const PREFERRED_BPM = 120; // center of the prior, most backing tracks are around it
+const PERIOD_STEP = 0.02; // frames
+export const BEATS_PER_BAR = 4;
+
+/**
+ * Tempo of a track: the beats are at firstBeat + n * 60 / bpm seconds, the bars start on the beats
+ * firstDownbeat + n * BEATS_PER_BAR * 60 / bpm. Confidence (0..1) is how much the beats stand out of the onsets
+ */
+export interface TempoResult {
+    bpm: number;
+    firstBeat: number;
+    firstDownbeat: number;
+    confidence: number;
+    duration: number;
+}
+
+/**
+ * Function to get the onset strength of every frame: the rise of the log energy, which peaks on the hits
+ */
+function onsetEnvelope(channels: Float32Array[], hopSize: number): Float32Array {
+    const length = channels[0].length;
+    const frames = Math.floor(length / hopSize);
+    const envelope = new Float32Array(frames);
+    let previous = 0;
+    for (let frame = 0; frame < frames; frame++) {
+        let energy = 0;
+        for (let i = frame * hopSize; i < (frame + 1) * hopSize; i++) {
+            let sample = 0;
+            channels.forEach((channel) => sample += channel[i]);
+            energy += sample * sample;
+        }
+        const logEnergy = Math.log(1 + 1000 * energy / hopSize);
+        envelope[frame] = Math.max(0, logEnergy - previous);
+        previous = logEnergy;
+    }
+    // Without the mean, the autocorrelation prefers the longest periods
+    const mean = envelope.reduce((sum, value) => sum + value, 0) / Math.max(1, frames);
+    return envelope.map((value) => Math.max(0, value - mean));
+}
+
+function autocorrelation(envelope: Float32Array, lag: number) {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) {
+        sum += envelope[i] * envelope[i - lag];
+    }
+    return sum / (envelope.length - lag);
+}
+
+function combScore(envelope: Float32Array, start: number, stride: number) {
+    let score = 0;
+    for (let position = start; position < envelope.length; position += stride) {
+        score += envelope[Math.round(position)] ?? 0;
+    }
+    return score;
+}
+
+/**
+ * Function to find, among the candidate positions (in frames), the one with the strongest onsets every stride frames
+ */
+function bestPhase(envelope: Float32Array, candidates: number[], stride: number) {
+    let best = candidates[0];
+    let bestScore = -1;
+    candidates.forEach((candidate) => {
+        const score = combScore(envelope, candidate, stride);
+        if (score > bestScore) {
+            bestScore = score;
+            best = candidate;
+        }
+    });
+    return best;
+}
+
+/**
+ * Function to estimate the tempo and the beat phase of decoded audio (one array per channel), offline.
+ * The period is the autocorrelation peak of the onset envelope in the 70-180 BPM range, weighted towards 120 BPM
+ * so that the half or double tempo is not picked
+ */
+export function detectTempo(channels: Float32Array[], sampleRate: number): TempoResult {
+    const duration = channels[0].length / sampleRate;
+    const frameRate = sampleRate / HOP_SIZE;
+    const envelope = onsetEnvelope(channels, HOP_SIZE);
+
+    const minLag = Math.floor(frameRate * 60 / MAX_DETECTED_BPM);
+    const maxLag = Math.ceil(frameRate * 60 / MIN_DETECTED_BPM);
+    if (envelope.length <= maxLag || autocorrelation(envelope, 0) == 0) {
+        return { bpm: PREFERRED_BPM, firstBeat: 0, firstDownbeat: 0, confidence: 0, duration: duration };
+    }
+
+    const scores: number[] = [];
+    let bestLag = minLag;
+    let bestScore = -Infinity;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        const bpm = frameRate * 60 / lag;
+        const prior = Math.exp(-0.5 * Math.pow(Math.log2(bpm / PREFERRED_BPM) / 0.5, 2));
+        scores[lag] = autocorrelation(envelope, lag);
+        if (scores[lag] * prior > bestScore) {
+            bestScore = scores[lag] * prior;
+            bestLag = lag;
+        }
+    }
+    // Refine the period with the phase: a small error of the period drifts the grid over the whole track
+    let period = bestLag;
+    let beat = 0;
+    let bestCombScore = -1;
+    for (let candidate = bestLag - 1; candidate <= bestLag + 1; candidate += PERIOD_STEP) {
+        const phases = Array.from({ length: Math.ceil(candidate) }, (_, i) => i);
+        const phase = bestPhase(envelope, phases, candidate);
+        const score = combScore(envelope, phase, candidate);
+        if (score > bestCombScore) {
+            bestCombScore = score;
+            period = candidate;
+            beat = phase;
+        }
+    }
+
+    const downbeat = bestPhase(envelope, Array.from({ length: BEATS_PER_BAR }, (_, i) => beat + i * period), period * BEATS_PER_BAR);
+    return {
+        bpm: frameRate * 60 / period,
+        firstBeat: beat / frameRate,
+        firstDownbeat: downbeat / frameRate,
+        confidence: Math.min(1, Math.max(0, scores[bestLag] / autocorrelation(envelope, 0))),
+        duration: duration,
+    };
+}
+
+/**
+ * Function to get the times of the beats of a track, with the ones starting a bar
+ */
+export function getBeatGrid(tempo: TempoResult): { time: number, downbeat: boolean }[] {
+    const beatLength = 60 / tempo.bpm;
+    const grid: { time: number, downbeat: boolean }[] = [];
+    for (let time = tempo.firstBeat; time < tempo.duration; time += beatLength) {
+        const beatsFromDownbeat = Math.round((time - tempo.firstDownbeat) / beatLength);
+        grid.push({ time: time, downbeat: ((beatsFromDownbeat % BEATS_PER_BAR) + BEATS_PER_BAR) % BEATS_PER_BAR == 0 });
+    }
+    return grid;
+}
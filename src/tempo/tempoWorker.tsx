@@ -0,0 +1,15 @@
+import { detectTempo } from "./TempoDetection";
+
+/**
+ * Request of the TempoAnalyzer: the channels of a decoded track, transferred to the worker
+ */
+export interface TempoRequest {
+    id: number;
+    channels: Float32Array[];
+    sampleRate: number;
+}
+
+self.onmessage = (event: MessageEvent<TempoRequest>) => {
+    const { id, channels, sampleRate } = event.data;
+    self.postMessage({ id: id, tempo: detectTempo(channels, sampleRate) });
+};
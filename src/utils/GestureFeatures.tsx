@@ -0,0 +1,162 @@
+/**
+ * Feature pipeline of the custom gestures. Every webcam frame becomes a GestureFrame, a window of frames is
+ * resampled to a fixed length and flattened in a vector with, for each of the two hand slots:
+ * presence, handedness, wrist position, the 21 landmarks relative to the wrist and scaled by the hand size,
+ * and the velocity of all of them
+ */
+
+const LANDMARKS_PER_HAND = 21;
+const WRIST = 0;
+const MIDDLE_MCP = 9;
+
+export const DEFAULT_WINDOW_LENGTH = 12; // frames after resampling
+// Version of the feature vectors, stored with the datasets: 1 was the 30 values of a single frame, 2 is the window of frames
+export const FEATURE_VERSION = 2;
+
+export interface Landmark {
+    x: number;
+    y: number;
+    z?: number;
+}
+
+export interface HandFrame {
+    handedness: string;
+    landmarks: Landmark[];
+}
+
+export interface GestureFrame {
+    timestamp: number; // ms
+    hands: HandFrame[];
+}
+
+export interface FeatureOptions {
+    windowLength: number;
+    twoHands: boolean;
+    velocity: boolean;
+}
+
+export const DEFAULT_FEATURE_OPTIONS: FeatureOptions = {
+    windowLength: DEFAULT_WINDOW_LENGTH,
+    twoHands: true,
+    velocity: true,
+};
+
+// present, isRight, wrist x and y, then x y z of every landmark
+const POSE_SIZE = 4 + LANDMARKS_PER_HAND * 3;
+// wrist and landmarks velocity
+const VELOCITY_SIZE = 2 + LANDMARKS_PER_HAND * 3;
+
+/**
+ * Function to build a frame from the results of the MediaPipe GestureRecognizer
+ */
+export function createGestureFrame(results: any, timestamp: number): GestureFrame {
+    const hands: HandFrame[] = [];
+    if (results && results.landmarks) {
+        for (let i = 0; i < results.landmarks.length; i++) {
+            hands.push({
+                handedness: results.handednesses[i]?.[0]?.displayName ?? "Right",
+                landmarks: results.landmarks[i],
+            });
+        }
+    }
+    return { timestamp: timestamp, hands: hands };
+}
+
+export function getFeatureSize(options: FeatureOptions = DEFAULT_FEATURE_OPTIONS) {
+    const perHand = POSE_SIZE + (options.velocity ? VELOCITY_SIZE : 0);
+    return options.windowLength * perHand * (options.twoHands ? 2 : 1);
+}
+
+/**
+ * Function to get the feature vector of a window of frames, whatever its frame rate
+ */
+export function extractWindowFeatures(frames: GestureFrame[], options: FeatureOptions = DEFAULT_FEATURE_OPTIONS): number[] {
+    const slots = options.twoHands ? 2 : 1;
+    const poses = resample(frames.map((frame) => encodeFrame(frame, slots)), frames.map((frame) => frame.timestamp), options.windowLength);
+    const duration = frames.length > 1 ? (frames[frames.length - 1].timestamp - frames[0].timestamp) / 1000 : 0;
+    const stepDuration = options.windowLength > 1 ? duration / (options.windowLength - 1) : 0;
+
+    const features: number[] = [];
+    poses.forEach((pose, t) => {
+        for (let slot = 0; slot < slots; slot++) {
+            const start = slot * POSE_SIZE;
+            const handPose = pose.slice(start, start + POSE_SIZE);
+            features.push(...handPose);
+            if (options.velocity) {
+                const previous = t > 0 ? poses[t - 1].slice(start, start + POSE_SIZE) : handPose;
+                // Velocity in units per second, zero when the hand is missing in one of the two frames
+                const bothPresent = handPose[0] > 0.5 && previous[0] > 0.5;
+                for (let f = 2; f < POSE_SIZE; f++) {
+                    features.push(bothPresent && stepDuration > 0 ? (handPose[f] - previous[f]) / stepDuration : 0);
+                }
+            }
+        }
+    });
+    return features;
+}
+
+/**
+ * Function to put the hands of a frame in their slots: with two slots the right hand always takes the first one
+ * and the left hand the second one, so that a hand keeps its slot across the frames; with one slot the first hand is used
+ */
+function encodeFrame(frame: GestureFrame, slots: number): number[] {
+    if (slots == 1) {
+        return encodeHand(frame.hands[0]);
+    }
+    return [
+        ...encodeHand(frame.hands.find((hand) => hand.handedness == "Right")),
+        ...encodeHand(frame.hands.find((hand) => hand.handedness != "Right")),
+    ];
+}
+
+function encodeHand(hand: HandFrame | undefined): number[] {
+    if (!hand || hand.landmarks.length < LANDMARKS_PER_HAND) {
+        return new Array(POSE_SIZE).fill(0);
+    }
+    const wrist = hand.landmarks[WRIST];
+    const middleMcp = hand.landmarks[MIDDLE_MCP];
+    // Hand size in the image, so that the features do not depend on the distance from the camera
+    const scale = Math.hypot(middleMcp.x - wrist.x, middleMcp.y - wrist.y) || 1;
+
+    const encoded = [1, hand.handedness == "Right" ? 1 : 0, wrist.x, wrist.y];
+    for (let i = 0; i < LANDMARKS_PER_HAND; i++) {
+        const point = hand.landmarks[i];
+        encoded.push(
+            (point.x - wrist.x) / scale,
+            (point.y - wrist.y) / scale,
+            ((point.z ?? 0) - (wrist.z ?? 0)) / scale
+        );
+    }
+    return encoded;
+}
+
+/**
+ * Function to linearly interpolate the vectors at evenly spaced times between the first and the last timestamp
+ */
+function resample(vectors: number[][], timestamps: number[], length: number): number[][] {
+    if (vectors.length == 0) {
+        return [];
+    }
+    const size = vectors[0].length;
+    if (vectors.length == 1) {
+        return new Array(length).fill(0).map(() => [...vectors[0]]);
+    }
+    const first = timestamps[0];
+    const last = timestamps[timestamps.length - 1];
+    const resampled: number[][] = [];
+    let index = 0;
+    for (let t = 0; t < length; t++) {
+        const time = length > 1 ? first + (last - first) * t / (length - 1) : first;
+        while (index < timestamps.length - 2 && timestamps[index + 1] < time) {
+            index++;
+        }
+        const span = timestamps[index + 1] - timestamps[index];
+        const weight = span > 0 ? Math.min(1, Math.max(0, (time - timestamps[index]) / span)) : 0;
+        const vector = new Array(size);
+        for (let f = 0; f < size; f++) {
+            vector[f] = vectors[index][f] * (1 - weight) + vectors[index + 1][f] * weight;
+        }
+        resampled.push(vector);
+    }
+    return resampled;
+}
@@ -1,3 +1,4 @@
+// Left/Right name the loop start and loop end steps, the hands making them come from the control bindings
 export enum CutState {
     Empty = "empty",
     StartCuttingLeft = "startCuttingLeft",
@@ -41,5 +42,6 @@ export enum VolumeState {
 
 export enum EffectsState {
     Empty = "empty",
+    SelectingEffect = "selectingEffect",
     StartPuttingEffects = "startPuttingEffects",
 }
\ No newline at end of file
@@ -28,14 +28,21 @@ export const calculateAngle = (coord1: Coordinates, coord2: Coordinates) => {
 };
 
 /**
- * Function to check if two points are close enough in order to detect the finger tips touch
+ * Function to get the size of the hand in the image, the wrist to middle finger MCP length (landmarks 0 and 9),
+ * so that distances between landmarks can be compared whatever the distance from the camera
  */
-export const closedPoints = (point1: any, point2: any, precision: number) => {
-    var a = point1.x - point2.x;
-    var b = point1.y - point2.y;
-    var c = Math.sqrt(a * a + b * b);
-    if (c < precision) {
-        return true;
-    }
-    return false;
-}
\ No newline at end of file
+export const handScale = (landmarks: any[]) => {
+    return Math.hypot(landmarks[9].x - landmarks[0].x, landmarks[9].y - landmarks[0].y);
+}
+
+/**
+ * Function to let the browser download a file generated in the page
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
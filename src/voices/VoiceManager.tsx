@@ -0,0 +1,130 @@
+import { DRUM_PADS, DrumPad } from "../kits/SampleKit";
+
+const POLYPHONY_KEY = "tuneCrafter.maxPolyphony";
+
+export const DEFAULT_MAX_POLYPHONY = 16;
+
+const RELEASE_TIME = 0.015; // seconds of the fade out of a stolen or choked voice, short enough to cut, long enough not to click
+
+/**
+ * A sample playing (or scheduled) on a pad
+ */
+interface Voice {
+    pad: DrumPad;
+    source: AudioBufferSourceNode;
+    gain: GainNode;
+    startTime: number;
+    chokeGroup?: string;
+    released: boolean;
+}
+
+/**
+ * Voices of the samples: every pad plays through its own bus, the voices over the max polyphony steal the oldest ones
+ * and a new hit cuts the ringing voices of its choke group
+ */
+export class VoiceManager {
+    private audioContext: BaseAudioContext;
+    private padBuses: Map<DrumPad, GainNode> = new Map();
+    private voices: Voice[] = [];
+    private maxPolyphony: number = DEFAULT_MAX_POLYPHONY;
+    private listeners: any = [];
+
+    constructor(audioContext: BaseAudioContext, getPadOutput: (pad: DrumPad) => AudioNode) {
+        this.audioContext = audioContext;
+        DRUM_PADS.forEach((pad) => {
+            const bus = audioContext.createGain();
+            bus.connect(getPadOutput(pad));
+            this.padBuses.set(pad, bus);
+        });
+        this.load();
+    }
+
+    addListener(listener: any) {
+        this.listeners.push(listener);
+    }
+
+    removeListener(listener: any) {
+        this.listeners = this.listeners.filter((l: any) => l !== listener);
+    }
+
+    fireListeners() {
+        this.listeners.forEach((listener: any) => listener());
+    }
+
+    getPadBus(pad: DrumPad): GainNode {
+        return this.padBuses.get(pad)!;
+    }
+
+    getMaxPolyphony() {
+        return this.maxPolyphony;
+    }
+
+    setMaxPolyphony(maxPolyphony: number) {
+        this.maxPolyphony = Math.max(1, Math.round(maxPolyphony));
+        localStorage.setItem(POLYPHONY_KEY, String(this.maxPolyphony));
+        this.fireListeners();
+    }
+
+    getActiveVoiceCount() {
+        return this.voices.filter((voice) => !voice.released).length;
+    }
+
+    /**
+     * Function to start a sample on the bus of a pad at the given time of the AudioContext clock, with the given gain.
+     * The voices the hit chokes or steals fade out when it starts
+     */
+    play(pad: DrumPad, buffer: AudioBuffer | undefined, time: number, gainValue: number, chokeGroup?: string): AudioBufferSourceNode {
+        if (chokeGroup != undefined) {
+            this.voices
+                .filter((voice) => voice.chokeGroup == chokeGroup && voice.startTime <= time)
+                .forEach((voice) => this.release(voice, time));
+        }
+        // Steal the oldest voices, so that the new one fits in the max polyphony
+        const sounding = this.voices.filter((voice) => !voice.released).sort((a, b) => a.startTime - b.startTime);
+        sounding.slice(0, Math.max(0, sounding.length - this.maxPolyphony + 1)).forEach((voice) => this.release(voice, time));
+
+        const source = this.audioContext.createBufferSource();
+        const gain = this.audioContext.createGain();
+        gain.gain.value = gainValue;
+        source.connect(gain);
+        gain.connect(this.getPadBus(pad));
+        if (buffer) {
+            source.buffer = buffer;
+        }
+
+        const voice: Voice = { pad: pad, source: source, gain: gain, startTime: time, chokeGroup: chokeGroup, released: false };
+        source.onended = () => {
+            gain.disconnect();
+            this.voices = this.voices.filter((v) => v !== voice);
+        };
+        this.voices.push(voice);
+        source.start(time);
+        return source;
+    }
+
+    /**
+     * Function to fade out all the voices of a pad, e.g. to mute it at once
+     */
+    stopPad(pad: DrumPad) {
+        this.voices.filter((voice) => voice.pad == pad).forEach((voice) => this.release(voice, this.audioContext.currentTime));
+    }
+
+    private release(voice: Voice, time: number) {
+        if (voice.released) {
+            return;
+        }
+        voice.released = true;
+        const at = Math.max(time, voice.startTime, this.audioContext.currentTime);
+        voice.gain.gain.cancelScheduledValues(at);
+        voice.gain.gain.setValueAtTime(voice.gain.gain.value, at);
+        voice.gain.gain.linearRampToValueAtTime(0, at + RELEASE_TIME);
+        voice.source.stop(at + RELEASE_TIME);
+    }
+
+    private load() {
+        const saved = parseInt(localStorage.getItem(POLYPHONY_KEY) ?? "", 10);
+        if (!isNaN(saved) && saved > 0) {
+            this.maxPolyphony = saved;
+        }
+    }
+}